@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTaskStore } from "@/lib/taskStore";
+import { eachTaskDateInRange, parseTaskDate } from "@/lib/dates";
+import { buildTimeReport, MAX_REPORT_DAYS } from "@/lib/timeReport";
+
+/**
+ * GET handler - Sums time spent over a date range
+ *
+ * Usage: GET /api/reports/time?from=2024-12-01&to=2024-12-31
+ *
+ * Returns total minutes plus totals per day, week (starting Monday), tag and
+ * completion state, each with how many tasks were planned and completed,
+ * and the tasks with the most time. Reads the same tasks the cards show.
+ *
+ * This is PUBLIC, like the other read endpoints
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = parseTaskDate(searchParams.get("from") || "");
+    const to = parseTaskDate(searchParams.get("to") || "");
+
+    if (!from || !to) {
+      return NextResponse.json(
+        {
+          error:
+            "Both 'from' and 'to' are required. Use: /api/reports/time?from=2024-12-01&to=2024-12-31",
+        },
+        { status: 400 }
+      );
+    }
+
+    const days = eachTaskDateInRange(from, to).length;
+    if (days === 0 || days > MAX_REPORT_DAYS) {
+      return NextResponse.json(
+        {
+          error: `'from' must not be after 'to', and the range can span at most ${MAX_REPORT_DAYS} days`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const tasks = await getTaskStore().listByDateRange(from, to);
+    const report = buildTimeReport(tasks, from, to);
+    console.log(
+      `📊 Time report ${report.from} to ${report.to}: ${report.total.minutes} minutes across ${report.total.tasks} tasks`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...report,
+    });
+  } catch (error) {
+    console.error("❌ Error building time report:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to build time report",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
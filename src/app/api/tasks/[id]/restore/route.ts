@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTaskStore } from "@/lib/taskStore";
+import { requireApiKey } from "@/lib/auth";
+import { getTaskETag } from "@/lib/etag";
+
+/**
+ * POST handler - Restores a task from the trash
+ *
+ * Usage: POST /api/tasks/[id]/restore
+ * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ *
+ * This requires API key authentication
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check API key authentication
+    const authError = requireApiKey(request);
+    if (authError) {
+      return NextResponse.json(
+        {
+          error: authError.error,
+          message: authError.message,
+          hint: authError.hint,
+        },
+        { status: authError.status }
+      );
+    }
+
+    const { id: taskId } = await params;
+    if (!taskId) {
+      return NextResponse.json(
+        { error: "Task ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const task = await getTaskStore().restore(taskId);
+
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        task,
+      },
+      { headers: { ETag: getTaskETag(task) } }
+    );
+  } catch (error) {
+    console.error("Error restoring task:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to restore task",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
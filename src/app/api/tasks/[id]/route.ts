@@ -1,13 +1,78 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getGoogleSheetsClient } from "@/lib/googleSheets";
+import { getTaskStore, isValidRecurrence } from "@/lib/taskStore";
+import { isValidNotes, MAX_NOTES_LENGTH } from "@/lib/notes";
+import { isValidTimeSpent } from "@/lib/duration";
+import { isValidPriority } from "@/lib/priority";
 import { requireApiKey } from "@/lib/auth";
+import { normalizeTaskDate } from "@/lib/dates";
+import { getTaskETag, parseIfMatch } from "@/lib/etag";
+import { TaskConflictError, TaskUpdateError } from "@/lib/taskErrors";
+
+/**
+ * Builds the 412 response for a failed If-Match precondition
+ */
+function conflictResponse(error: TaskConflictError) {
+  return NextResponse.json(
+    {
+      error: "Precondition Failed",
+      message: error.message,
+      task: error.currentTask,
+    },
+    {
+      status: 412,
+      headers: error.currentTask
+        ? { ETag: getTaskETag(error.currentTask) }
+        : undefined,
+    }
+  );
+}
+
+/**
+ * GET handler - Fetches a single task
+ *
+ * Usage: GET /api/tasks/[id]
+ *
+ * The response carries an ETag header to send back as If-Match on PATCH/DELETE
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: taskId } = await params;
+    const task = await getTaskStore().get(taskId);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { success: true, task },
+      { headers: { ETag: getTaskETag(task) } }
+    );
+  } catch (error) {
+    console.error("Error fetching task:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch task",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
 
 /**
  * PATCH handler - Updates a task
  *
  * Usage: PATCH /api/tasks/[id]
  * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
- * Body: { text?: string, completed?: boolean, date?: string, timeSpent?: string | number }
+ *          If-Match: "v3" (optional - rejects the update with 412 if the task changed)
+ * Body: { text?: string, completed?: boolean, date?: string, timeSpent?: string | number, recurrence?: string, priority?: 1 | 2 | 3 | null, notes?: string }
+ *
+ * Setting `recurrence` makes the task repeat ("" stops it). Occurrences of a
+ * repeating task have IDs like "task-123@2025-01-06" and can be updated on their own.
+ * `timeSpent` takes a duration (90, "45m", "1h30m", "1:30", "1.5h"; "" clears it) and is stored as whole minutes.
  *
  * This requires API key authentication
  */
@@ -39,119 +104,94 @@ export async function PATCH(
 
     // Parse request body
     const body = await request.json();
-    const { text, completed, date, timeSpent } = body;
+    const { text, completed, date, timeSpent, recurrence, priority, notes } =
+      body;
 
     // Validate that at least one field is being updated
     if (
       text === undefined &&
       completed === undefined &&
       date === undefined &&
-      timeSpent === undefined
+      timeSpent === undefined &&
+      recurrence === undefined &&
+      priority === undefined &&
+      notes === undefined
     ) {
       return NextResponse.json(
         {
           error:
-            "At least one field (text, completed, date, or timeSpent) must be provided for update",
+            "At least one field (text, completed, date, timeSpent, recurrence, priority, or notes) must be provided for update",
         },
         { status: 400 }
       );
     }
 
-    // Connect to Google Sheets
-    let sheets;
-    try {
-      sheets = await getGoogleSheetsClient();
-    } catch (authError) {
-      console.error("❌ Failed to authenticate with Google Sheets:", authError);
+    if (date !== undefined && !normalizeTaskDate(String(date))) {
+      return NextResponse.json(
+        { error: "Invalid date. Use YYYY-MM-DD (or M/D/YYYY)" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidTimeSpent(timeSpent)) {
       return NextResponse.json(
         {
-          error: "Failed to authenticate with Google Sheets",
-          details:
-            authError instanceof Error
-              ? authError.message
-              : "Unknown authentication error",
+          error:
+            "Invalid timeSpent. Use a duration like 90, 45m, 1h30m, 1:30 or 1.5h",
         },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
-    const spreadsheetId = process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
-    const sheetName = process.env.GOOGLE_SHEETS_SHEET_NAME || "Sheet1";
+    if (!isValidRecurrence(recurrence)) {
+      return NextResponse.json(
+        {
+          error:
+            "Invalid recurrence. Use daily, weekdays, weekly:mon,thu, monthly:15 or every:3",
+        },
+        { status: 400 }
+      );
+    }
 
-    if (!spreadsheetId) {
+    if (priority != null && !isValidPriority(priority)) {
       return NextResponse.json(
-        { error: "Spreadsheet ID not configured" },
-        { status: 500 }
+        { error: "Invalid priority. Use 1, 2 or 3 (or null to clear it)" },
+        { status: 400 }
       );
     }
 
-    // Read all rows to find the task
-    const range = `${sheetName}!A2:F1000`;
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId,
-      range,
-    });
+    if (!isValidNotes(notes)) {
+      return NextResponse.json(
+        { error: `'notes' must be text of at most ${MAX_NOTES_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
 
-    const rows = response.data.values || [];
-    const taskRowIndex = rows.findIndex((row) => row[0] === taskId);
+    // Apply the update through the configured store
+    const updatedTask = await getTaskStore().update(
+      taskId,
+      { text, completed, date, timeSpent, recurrence, priority, notes },
+      { expectedVersion: parseIfMatch(request.headers.get("if-match")) }
+    );
 
-    if (taskRowIndex === -1) {
+    if (!updatedTask) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
-    // Get the current row (row index + 2 because we start from row 2, and arrays are 0-indexed)
-    const actualRowNumber = taskRowIndex + 2;
-    const currentRow = rows[taskRowIndex];
-
-    // Prepare updated values
-    const updatedId = currentRow[0] || "";
-    const updatedDate = date !== undefined ? date : currentRow[1] || "";
-    const updatedText = text !== undefined ? text.trim() : currentRow[2] || "";
-    const updatedCompleted =
-      completed !== undefined
-        ? completed === true
-          ? "true"
-          : "false"
-        : currentRow[3] || "false";
-    const updatedCreatedAt = currentRow[4] || new Date().toISOString();
-    const updatedTimeSpent =
-      timeSpent !== undefined ? String(timeSpent) : currentRow[5] || "";
-
-    // Update the row in Google Sheets
-    const updateRange = `${sheetName}!A${actualRowNumber}:F${actualRowNumber}`;
-    await sheets.spreadsheets.values.update({
-      spreadsheetId,
-      range: updateRange,
-      valueInputOption: "USER_ENTERED",
-      requestBody: {
-        values: [
-          [
-            updatedId,
-            updatedDate,
-            updatedText,
-            updatedCompleted,
-            updatedCreatedAt,
-            updatedTimeSpent,
-          ],
-        ],
+    return NextResponse.json(
+      {
+        success: true,
+        task: updatedTask,
       },
-    });
-
-    // Return the updated task
-    const updatedTask = {
-      id: updatedId,
-      date: updatedDate,
-      text: updatedText,
-      completed: updatedCompleted === "true",
-      created_at: updatedCreatedAt,
-      timeSpent: updatedTimeSpent,
-    };
-
-    return NextResponse.json({
-      success: true,
-      task: updatedTask,
-    });
+      { headers: { ETag: getTaskETag(updatedTask) } }
+    );
   } catch (error) {
+    if (error instanceof TaskConflictError) {
+      return conflictResponse(error);
+    }
+    if (error instanceof TaskUpdateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error updating task:", error);
     return NextResponse.json(
       {
@@ -164,10 +204,12 @@ export async function PATCH(
 }
 
 /**
- * DELETE handler - Deletes a task
+ * DELETE handler - Moves a task to the trash
+ * Restore it with POST /api/tasks/[id]/restore
  *
  * Usage: DELETE /api/tasks/[id]
  * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ *          If-Match: "v3" (optional - rejects the delete with 412 if the task changed)
  *
  * This requires API key authentication
  */
@@ -197,87 +239,23 @@ export async function DELETE(
       );
     }
 
-    // Connect to Google Sheets
-    let sheets;
-    try {
-      sheets = await getGoogleSheetsClient();
-    } catch (authError) {
-      console.error("❌ Failed to authenticate with Google Sheets:", authError);
-      return NextResponse.json(
-        {
-          error: "Failed to authenticate with Google Sheets",
-          details:
-            authError instanceof Error
-              ? authError.message
-              : "Unknown authentication error",
-        },
-        { status: 500 }
-      );
-    }
-
-    const spreadsheetId = process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
-    const sheetName = process.env.GOOGLE_SHEETS_SHEET_NAME || "Sheet1";
-
-    if (!spreadsheetId) {
-      return NextResponse.json(
-        { error: "Spreadsheet ID not configured" },
-        { status: 500 }
-      );
-    }
-
-    // Read all rows to find the task
-    const range = `${sheetName}!A2:F1000`;
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId,
-      range,
+    // Delete the task through the configured store
+    const deleted = await getTaskStore().delete(taskId, {
+      expectedVersion: parseIfMatch(request.headers.get("if-match")),
     });
 
-    const rows = response.data.values || [];
-    const taskRowIndex = rows.findIndex((row) => row[0] === taskId);
-
-    if (taskRowIndex === -1) {
+    if (!deleted) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
-    // Get sheet ID from spreadsheet metadata
-    const spreadsheet = await sheets.spreadsheets.get({
-      spreadsheetId,
-    });
-    const sheet = spreadsheet.data.sheets?.find(
-      (s) => s.properties?.title === sheetName
-    );
-    const sheetId = sheet?.properties?.sheetId;
-
-    if (sheetId === undefined) {
-      return NextResponse.json({ error: "Sheet not found" }, { status: 404 });
-    }
-
-    // Delete the row (row index + 2 because we start from row 2, and arrays are 0-indexed)
-    const actualRowNumber = taskRowIndex + 2;
-
-    await sheets.spreadsheets.batchUpdate({
-      spreadsheetId,
-      requestBody: {
-        requests: [
-          {
-            deleteDimension: {
-              range: {
-                sheetId,
-                dimension: "ROWS",
-                startIndex: actualRowNumber - 1, // 0-indexed
-                endIndex: actualRowNumber,
-              },
-            },
-          },
-        ],
-      },
-    });
-
     return NextResponse.json({
       success: true,
-      message: "Task deleted successfully",
+      message: "Task moved to trash",
     });
   } catch (error) {
+    if (error instanceof TaskConflictError) {
+      return conflictResponse(error);
+    }
     console.error("Error deleting task:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTaskStore } from "@/lib/taskStore";
+import {
+  addTrackedTime,
+  checkTimerTask,
+  getTimeEntryStore,
+  isTimerRunning,
+} from "@/lib/timeEntryStore";
+import { requireApiKey } from "@/lib/auth";
+import { getTaskETag } from "@/lib/etag";
+
+/**
+ * GET handler - Lists a task's time entries
+ *
+ * Usage: GET /api/tasks/[id]/timer
+ * Returns every entry (oldest first) and the running one, if any.
+ * This is PUBLIC, like the other read endpoints
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: taskId } = await params;
+    const entries = await getTimeEntryStore().listByTask(taskId);
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      running: entries.find(isTimerRunning) || null,
+      count: entries.length,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching time entries:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch time entries",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler - Starts a task's timer
+ *
+ * Usage: POST /api/tasks/[id]/timer
+ * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ *
+ * Fails with 409 if the task's timer is already running.
+ * This requires API key authentication
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check API key authentication
+    const authError = requireApiKey(request);
+    if (authError) {
+      return NextResponse.json(
+        {
+          error: authError.error,
+          message: authError.message,
+          hint: authError.hint,
+        },
+        { status: authError.status }
+      );
+    }
+
+    const { id: taskId } = await params;
+    const task = await getTaskStore().get(taskId);
+    const taskError = checkTimerTask(task);
+    if (taskError) {
+      return NextResponse.json(
+        { error: taskError },
+        { status: task ? 400 : 404 }
+      );
+    }
+
+    const entry = await getTimeEntryStore().start(taskId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: "A timer is already running for this task" },
+        { status: 409 }
+      );
+    }
+
+    console.log(`⏱️ Started timer for task ${taskId}`);
+    return NextResponse.json({ success: true, entry }, { status: 201 });
+  } catch (error) {
+    console.error("Error starting timer:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to start timer",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler - Stops a task's timer
+ *
+ * Usage: DELETE /api/tasks/[id]/timer
+ * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ *
+ * Records the entry's end and duration, then recomputes the task's timeSpent.
+ * Returns the stopped entry and the updated task (null if the task was deleted meanwhile).
+ * This requires API key authentication
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check API key authentication
+    const authError = requireApiKey(request);
+    if (authError) {
+      return NextResponse.json(
+        {
+          error: authError.error,
+          message: authError.message,
+          hint: authError.hint,
+        },
+        { status: authError.status }
+      );
+    }
+
+    const { id: taskId } = await params;
+    const timeEntries = getTimeEntryStore();
+    const entry = await timeEntries.stop(taskId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: "No timer is running for this task" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`⏱️ Stopped timer for task ${taskId} after ${entry.duration}s`);
+    const task = await addTrackedTime(getTaskStore(), timeEntries, entry);
+
+    return NextResponse.json(
+      { success: true, entry, task },
+      task ? { headers: { ETag: getTaskETag(task) } } : undefined
+    );
+  } catch (error) {
+    console.error("Error stopping timer:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to stop timer",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,36 @@
 "use server";
 
-import { getGoogleSheetsClient } from "@/lib/googleSheets";
+import {
+  getTaskStore,
+  checkParentTask,
+  importTasks,
+  purgeExpiredTrash,
+  isValidRecurrence,
+  reorderTasks,
+  rolloverTasks,
+  validateBatchOperations,
+  validateReorderIds,
+  validateRolloverRequest,
+  type BatchOperation,
+  type RolloverRequest,
+} from "@/lib/taskStore";
+import { isValidNotes, MAX_NOTES_LENGTH } from "@/lib/notes";
+import { isValidTimeSpent } from "@/lib/duration";
+import {
+  addTrackedTime,
+  checkTimerTask,
+  getTimeEntryStore,
+} from "@/lib/timeEntryStore";
+import { TaskConflictError } from "@/lib/taskErrors";
+import { normalizeTaskDate } from "@/lib/dates";
+import { isValidPriority } from "@/lib/priority";
+import {
+  detectImportFormat,
+  MAX_IMPORT_ROWS,
+  parseImport,
+  validateImportRequest,
+  type ImportRequest,
+} from "@/lib/taskImport";
 
 /**
  * Server action to create a task
@@ -10,13 +40,22 @@ export async function createTaskAction(
   text: string,
   date: string,
   completed: boolean = false,
-  timeSpent?: string | number
+  timeSpent?: string | number,
+  parentId?: string
 ) {
   try {
     // Validate input
     if (!text || !date) {
       throw new Error("Both 'text' and 'date' are required");
     }
+    if (!normalizeTaskDate(date)) {
+      throw new Error("Invalid date. Use YYYY-MM-DD (or M/D/YYYY)");
+    }
+    if (!isValidTimeSpent(timeSpent)) {
+      throw new Error(
+        "Invalid time spent. Use a duration like 90, 45m, 1h30m, 1:30 or 1.5h"
+      );
+    }
 
     // Check API key (server-side only)
     const apiKey = process.env.API_KEY;
@@ -24,53 +63,25 @@ export async function createTaskAction(
       throw new Error("API key not configured on server");
     }
 
-    // Connect to Google Sheets
-    const sheets = await getGoogleSheetsClient();
-    const spreadsheetId = process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
-    const sheetName = process.env.GOOGLE_SHEETS_SHEET_NAME || "Sheet1";
-
-    if (!spreadsheetId) {
-      throw new Error("Spreadsheet ID not configured");
+    const store = getTaskStore();
+    if (parentId) {
+      const parentError = await checkParentTask(store, parentId, date);
+      if (parentError) {
+        throw new Error(parentError);
+      }
     }
 
-    // Generate ID and timestamp
-    const id = `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const created_at = new Date().toISOString();
-    const completedValue = completed === true ? "true" : "false";
-    const timeSpentValue = timeSpent !== undefined ? String(timeSpent) : "";
-
-    // Prepare the new row data
-    const newRow = [
-      id,
+    const task = await store.create({
+      text,
       date,
-      text.trim(),
-      completedValue,
-      created_at,
-      timeSpentValue,
-    ];
-
-    // Append the new row to the sheet
-    const range = `${sheetName}!A:F`;
-    await sheets.spreadsheets.values.append({
-      spreadsheetId,
-      range,
-      valueInputOption: "USER_ENTERED",
-      insertDataOption: "INSERT_ROWS",
-      requestBody: {
-        values: [newRow],
-      },
+      completed,
+      timeSpent,
+      parent_id: parentId,
     });
 
     return {
       success: true,
-      task: {
-        id,
-        date,
-        text: text.trim(),
-        completed,
-        created_at,
-        timeSpent: timeSpentValue,
-      },
+      task,
     };
   } catch (error) {
     console.error("Error in createTaskAction:", error);
@@ -80,6 +91,9 @@ export async function createTaskAction(
 
 /**
  * Server action to update a task
+ *
+ * Pass `expectedVersion` to reject the update if the task changed in the meantime.
+ * Conflicts are returned (not thrown) so the client can tell them apart from other errors.
  */
 export async function updateTaskAction(
   taskId: string,
@@ -88,12 +102,35 @@ export async function updateTaskAction(
     completed?: boolean;
     date?: string;
     timeSpent?: string | number;
-  }
+    recurrence?: string;
+    priority?: number | null;
+    notes?: string;
+  },
+  options: { expectedVersion?: number } = {}
 ) {
   try {
     if (!taskId) {
       throw new Error("Task ID is required");
     }
+    if (updates.date !== undefined && !normalizeTaskDate(updates.date)) {
+      throw new Error("Invalid date. Use YYYY-MM-DD (or M/D/YYYY)");
+    }
+    if (!isValidTimeSpent(updates.timeSpent)) {
+      throw new Error(
+        "Invalid time spent. Use a duration like 90, 45m, 1h30m, 1:30 or 1.5h"
+      );
+    }
+    if (!isValidRecurrence(updates.recurrence)) {
+      throw new Error(
+        "Invalid recurrence. Use daily, weekdays, weekly:mon,thu, monthly:15 or every:3"
+      );
+    }
+    if (updates.priority != null && !isValidPriority(updates.priority)) {
+      throw new Error("Invalid priority. Use 1, 2 or 3 (or null to clear it)");
+    }
+    if (!isValidNotes(updates.notes)) {
+      throw new Error(`Notes must be text of at most ${MAX_NOTES_LENGTH} characters`);
+    }
 
     // Check API key (server-side only)
     const apiKey = process.env.API_KEY;
@@ -101,92 +138,78 @@ export async function updateTaskAction(
       throw new Error("API key not configured on server");
     }
 
-    // Connect to Google Sheets
-    const sheets = await getGoogleSheetsClient();
-    const spreadsheetId = process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
-    const sheetName = process.env.GOOGLE_SHEETS_SHEET_NAME || "Sheet1";
+    const task = await getTaskStore().update(taskId, updates, options);
 
-    if (!spreadsheetId) {
-      throw new Error("Spreadsheet ID not configured");
+    if (!task) {
+      throw new Error("Task not found");
     }
 
-    // Read all rows to find the task
-    const range = `${sheetName}!A2:F1000`;
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId,
-      range,
-    });
+    return {
+      success: true as const,
+      task,
+    };
+  } catch (error) {
+    if (error instanceof TaskConflictError) {
+      return {
+        success: false as const,
+        conflict: true as const,
+        task: error.currentTask,
+      };
+    }
+    console.error("Error in updateTaskAction:", error);
+    throw error;
+  }
+}
+
+/**
+ * Server action to delete a task (moves it to the trash)
+ *
+ * Pass `expectedVersion` to reject the delete if the task changed in the meantime.
+ */
+export async function deleteTaskAction(
+  taskId: string,
+  options: { expectedVersion?: number } = {}
+) {
+  try {
+    if (!taskId) {
+      throw new Error("Task ID is required");
+    }
+
+    // Check API key (server-side only)
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API key not configured on server");
+    }
 
-    const rows = response.data.values || [];
-    const taskRowIndex = rows.findIndex((row) => row[0] === taskId);
+    const deleted = await getTaskStore().delete(taskId, options);
 
-    if (taskRowIndex === -1) {
+    if (!deleted) {
       throw new Error("Task not found");
     }
 
-    // Get the current row
-    const actualRowNumber = taskRowIndex + 2;
-    const currentRow = rows[taskRowIndex];
-
-    // Prepare updated values
-    const updatedId = currentRow[0] || "";
-    const updatedDate =
-      updates.date !== undefined ? updates.date : currentRow[1] || "";
-    const updatedText =
-      updates.text !== undefined ? updates.text.trim() : currentRow[2] || "";
-    const updatedCompleted =
-      updates.completed !== undefined
-        ? updates.completed === true
-          ? "true"
-          : "false"
-        : currentRow[3] || "false";
-    const updatedCreatedAt = currentRow[4] || new Date().toISOString();
-    const updatedTimeSpent =
-      updates.timeSpent !== undefined
-        ? String(updates.timeSpent)
-        : currentRow[5] || "";
-
-    // Update the row in Google Sheets
-    const updateRange = `${sheetName}!A${actualRowNumber}:F${actualRowNumber}`;
-    await sheets.spreadsheets.values.update({
-      spreadsheetId,
-      range: updateRange,
-      valueInputOption: "USER_ENTERED",
-      requestBody: {
-        values: [
-          [
-            updatedId,
-            updatedDate,
-            updatedText,
-            updatedCompleted,
-            updatedCreatedAt,
-            updatedTimeSpent,
-          ],
-        ],
-      },
-    });
+    console.log(`✅ Moved task ${taskId} to the trash`);
 
     return {
-      success: true,
-      task: {
-        id: updatedId,
-        date: updatedDate,
-        text: updatedText,
-        completed: updatedCompleted === "true",
-        created_at: updatedCreatedAt,
-        timeSpent: updatedTimeSpent,
-      },
+      success: true as const,
+      message: "Task moved to trash",
     };
   } catch (error) {
-    console.error("Error in updateTaskAction:", error);
+    if (error instanceof TaskConflictError) {
+      return {
+        success: false as const,
+        conflict: true as const,
+        task: error.currentTask,
+      };
+    }
+    console.error("Error in deleteTaskAction:", error);
     throw error;
   }
 }
 
 /**
- * Server action to delete a task
+ * Server action to restore a task from the trash
  */
-export async function deleteTaskAction(taskId: string) {
+export async function restoreTaskAction(taskId: string) {
   try {
     if (!taskId) {
       throw new Error("Task ID is required");
@@ -198,75 +221,241 @@ export async function deleteTaskAction(taskId: string) {
       throw new Error("API key not configured on server");
     }
 
-    // Connect to Google Sheets
-    const sheets = await getGoogleSheetsClient();
-    const spreadsheetId = process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
-    const sheetName = process.env.GOOGLE_SHEETS_SHEET_NAME || "Sheet1";
+    const task = await getTaskStore().restore(taskId);
 
-    if (!spreadsheetId) {
-      throw new Error("Spreadsheet ID not configured");
+    if (!task) {
+      throw new Error("Task not found in trash");
     }
 
-    // Read all rows to find the task
-    const range = `${sheetName}!A2:F1000`;
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId,
-      range,
-    });
+    return {
+      success: true,
+      task,
+    };
+  } catch (error) {
+    console.error("Error in restoreTaskAction:", error);
+    throw error;
+  }
+}
+
+/**
+ * Server action to permanently remove tasks that have been in the trash
+ * longer than the retention period
+ */
+export async function purgeTrashAction() {
+  try {
+    // Check API key (server-side only)
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API key not configured on server");
+    }
 
-    const rows = response.data.values || [];
-    const taskRowIndex = rows.findIndex((row) => row[0] === taskId);
+    const purged = await purgeExpiredTrash(getTaskStore());
 
-    if (taskRowIndex === -1) {
-      throw new Error("Task not found");
+    return {
+      success: true,
+      purged,
+    };
+  } catch (error) {
+    console.error("Error in purgeTrashAction:", error);
+    throw error;
+  }
+}
+
+/**
+ * Server action to apply several task changes in one write
+ * Each operation gets its own result; a failed operation doesn't stop the rest
+ */
+export async function batchTasksAction(operations: BatchOperation[]) {
+  try {
+    const validationError = validateBatchOperations(operations);
+    if (validationError) {
+      throw new Error(validationError);
     }
 
-    // Get sheet ID from spreadsheet metadata
-    const spreadsheet = await sheets.spreadsheets.get({
-      spreadsheetId,
-    });
-    const sheet = spreadsheet.data.sheets?.find(
-      (s) => s.properties?.title === sheetName
-    );
-    const sheetId = sheet?.properties?.sheetId;
+    // Check API key (server-side only)
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API key not configured on server");
+    }
+
+    const results = await getTaskStore().applyBatch(operations);
 
-    if (sheetId === undefined) {
-      throw new Error("Sheet not found");
+    return {
+      success: true,
+      results,
+    };
+  } catch (error) {
+    console.error("Error in batchTasksAction:", error);
+    throw error;
+  }
+}
+
+/**
+ * Server action to import tasks from CSV, Markdown or todo.txt
+ * With `dryRun` it only returns the parsed rows, for a preview
+ */
+export async function importTasksAction(request: ImportRequest) {
+  try {
+    const validationError = validateImportRequest(request);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    // Check API key (server-side only)
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API key not configured on server");
     }
 
-    // Delete the row
-    const actualRowNumber = taskRowIndex + 2;
+    const format =
+      request.format ?? detectImportFormat(request.content, request.fileName);
+    const parsed = parseImport(request.content, format, request.date);
+    if (parsed.length > MAX_IMPORT_ROWS) {
+      throw new Error(`An import can contain at most ${MAX_IMPORT_ROWS} rows`);
+    }
 
-    console.log(
-      `🗑️ Deleting task ${taskId} from row ${actualRowNumber} in sheet ${sheetName}`
+    const rows = await importTasks(
+      getTaskStore(),
+      parsed,
+      request.dryRun === true
     );
 
-    await sheets.spreadsheets.batchUpdate({
-      spreadsheetId,
-      requestBody: {
-        requests: [
-          {
-            deleteDimension: {
-              range: {
-                sheetId,
-                dimension: "ROWS",
-                startIndex: actualRowNumber - 1, // 0-indexed
-                endIndex: actualRowNumber,
-              },
-            },
-          },
-        ],
-      },
-    });
+    return {
+      success: true,
+      format,
+      rows,
+    };
+  } catch (error) {
+    console.error("Error in importTasksAction:", error);
+    throw error;
+  }
+}
 
-    console.log(`✅ Successfully deleted task ${taskId} from Google Sheets`);
+/**
+ * Server action to set the manual order of tasks
+ *
+ * @param ids - Task IDs in their new order
+ */
+export async function reorderTasksAction(ids: string[]) {
+  try {
+    const validationError = validateReorderIds(ids);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    // Check API key (server-side only)
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API key not configured on server");
+    }
+
+    const tasks = await reorderTasks(getTaskStore(), ids);
 
     return {
       success: true,
-      message: "Task deleted successfully",
+      tasks,
     };
   } catch (error) {
-    console.error("Error in deleteTaskAction:", error);
+    console.error("Error in reorderTasksAction:", error);
+    throw error;
+  }
+}
+
+/**
+ * Server action to roll unfinished tasks from earlier dates over to a new date
+ * Each task gets its own result; a failed task doesn't stop the rest
+ */
+export async function rolloverTasksAction(request: RolloverRequest) {
+  try {
+    const validationError = validateRolloverRequest(request);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    // Check API key (server-side only)
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API key not configured on server");
+    }
+
+    const results = await rolloverTasks(getTaskStore(), request);
+
+    return {
+      success: true,
+      results,
+    };
+  } catch (error) {
+    console.error("Error in rolloverTasksAction:", error);
+    throw error;
+  }
+}
+
+/**
+ * Server action to start a task's timer
+ * The running entry is stored, so the timer carries on across page reloads
+ */
+export async function startTimerAction(taskId: string) {
+  try {
+    if (!taskId) {
+      throw new Error("Task ID is required");
+    }
+
+    // Check API key (server-side only)
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API key not configured on server");
+    }
+
+    const taskError = checkTimerTask(await getTaskStore().get(taskId));
+    if (taskError) {
+      throw new Error(taskError);
+    }
+
+    const entry = await getTimeEntryStore().start(taskId);
+    if (!entry) {
+      throw new Error("A timer is already running for this task");
+    }
+
+    return {
+      success: true,
+      entry,
+    };
+  } catch (error) {
+    console.error("Error in startTimerAction:", error);
+    throw error;
+  }
+}
+
+/**
+ * Server action to stop a task's timer and add the tracked time to the task
+ */
+export async function stopTimerAction(taskId: string) {
+  try {
+    if (!taskId) {
+      throw new Error("Task ID is required");
+    }
+
+    // Check API key (server-side only)
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API key not configured on server");
+    }
+
+    const timeEntries = getTimeEntryStore();
+    const entry = await timeEntries.stop(taskId);
+    if (!entry) {
+      throw new Error("No timer is running for this task");
+    }
+
+    const task = await addTrackedTime(getTaskStore(), timeEntries, entry);
+
+    return {
+      success: true,
+      entry,
+      task,
+    };
+  } catch (error) {
+    console.error("Error in stopTimerAction:", error);
     throw error;
   }
 }
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTaskStore, validateBatchOperations } from "@/lib/taskStore";
+import { requireApiKey } from "@/lib/auth";
+
+/**
+ * POST handler - Applies several task changes in one request
+ *
+ * Usage: POST /api/tasks/batch
+ * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ * Body: {
+ *   operations: [
+ *     { type: "create", task: { text, date, completed?, timeSpent? } },
+ *     { type: "update", id, updates: { text?, completed?, date?, timeSpent? }, expectedVersion? },
+ *     { type: "delete", id, expectedVersion? }
+ *   ]
+ * }
+ *
+ * Operations run in order and are written together. Each one gets its own
+ * entry in `results`, so a failed operation doesn't fail the whole batch.
+ *
+ * This requires API key authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check API key authentication
+    const authError = requireApiKey(request);
+    if (authError) {
+      return NextResponse.json(
+        {
+          error: authError.error,
+          message: authError.message,
+          hint: authError.hint,
+        },
+        { status: authError.status }
+      );
+    }
+
+    const body = await request.json();
+    const { operations } = body;
+
+    const validationError = validateBatchOperations(operations);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const results = await getTaskStore().applyBatch(operations);
+    const failed = results.filter((result) => !result.success).length;
+
+    console.log(
+      `✅ Applied batch of ${results.length} operations (${failed} failed)`
+    );
+    return NextResponse.json({
+      success: failed === 0,
+      results,
+      count: results.length,
+      failed,
+    });
+  } catch (error) {
+    console.error("Error applying task batch:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to apply task batch",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTaskStore } from "@/lib/taskStore";
+import { eachTaskDateInRange, formatTaskDate, parseTaskDate } from "@/lib/dates";
+import {
+  EXPORT_FORMATS,
+  exportTasks,
+  getExportHeaders,
+  isExportFormat,
+  MAX_EXPORT_DAYS,
+} from "@/lib/taskExport";
+
+/**
+ * Turns chunks of text into a response body stream
+ */
+function toStream(chunks: Iterable<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.iterator]();
+  return new ReadableStream({
+    pull(controller) {
+      const { value, done } = iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+  });
+}
+
+/**
+ * GET handler - Downloads tasks over a date range
+ *
+ * Usage: GET /api/tasks/export?from=2024-12-01&to=2024-12-31&format=csv
+ *
+ * Formats: csv, json (the default), md (a checklist per day) and todotxt.
+ * Trashed tasks aren't included.
+ *
+ * This is PUBLIC, like the other read endpoints
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = parseTaskDate(searchParams.get("from") || "");
+    const to = parseTaskDate(searchParams.get("to") || "");
+    const format = searchParams.get("format") || "json";
+
+    if (!from || !to) {
+      return NextResponse.json(
+        {
+          error:
+            "Both 'from' and 'to' are required. Use: /api/tasks/export?from=2024-12-01&to=2024-12-31&format=csv",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        {
+          error: `Invalid format. Use one of: ${EXPORT_FORMATS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const days = eachTaskDateInRange(from, to).length;
+    if (days === 0 || days > MAX_EXPORT_DAYS) {
+      return NextResponse.json(
+        {
+          error: `'from' must not be after 'to', and the range can span at most ${MAX_EXPORT_DAYS} days`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const fromIso = formatTaskDate(from);
+    const toIso = formatTaskDate(to);
+    const tasks = await getTaskStore().listByDateRange(from, to);
+    console.log(
+      `📤 Exporting ${tasks.length} tasks from ${fromIso} to ${toIso} as ${format}`
+    );
+
+    return new NextResponse(toStream(exportTasks(tasks, format, fromIso, toIso)), {
+      headers: getExportHeaders(format, fromIso, toIso),
+    });
+  } catch (error) {
+    console.error("❌ Error exporting tasks:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to export tasks",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
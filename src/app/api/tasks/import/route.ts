@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTaskStore, importTasks } from "@/lib/taskStore";
+import { requireApiKey } from "@/lib/auth";
+import {
+  countImportRows,
+  detectImportFormat,
+  MAX_IMPORT_ROWS,
+  parseImport,
+  validateImportRequest,
+} from "@/lib/taskImport";
+
+/**
+ * POST handler - Imports tasks from CSV, Markdown checklists or todo.txt
+ *
+ * Usage: POST /api/tasks/import
+ * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ * Body: {
+ *   content: "...",                      // The file's text
+ *   format?: "csv" | "md" | "todotxt",   // Default: detected from fileName or the content
+ *   fileName?: "tasks.csv",
+ *   date?: "2024-12-25",                 // Date for rows without one
+ *   dryRun?: boolean                     // Preview only (default: false)
+ * }
+ *
+ * Every row gets an entry in `rows` with its status: "ready" (dry run),
+ * "imported", "invalid" or "failed" (with an error), or "duplicate" when a
+ * task with the same text is already on that date. New tasks are written
+ * through the batch path.
+ *
+ * This requires API key authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check API key authentication
+    const authError = requireApiKey(request);
+    if (authError) {
+      return NextResponse.json(
+        {
+          error: authError.error,
+          message: authError.message,
+          hint: authError.hint,
+        },
+        { status: authError.status }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateImportRequest(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { content, fileName, date, dryRun = false } = body;
+    const format = body.format ?? detectImportFormat(content, fileName);
+    const parsed = parseImport(content, format, date);
+    if (parsed.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `An import can contain at most ${MAX_IMPORT_ROWS} rows` },
+        { status: 400 }
+      );
+    }
+
+    const rows = await importTasks(getTaskStore(), parsed, dryRun === true);
+    const counts = countImportRows(rows);
+
+    console.log(
+      `📥 ${dryRun ? "Previewed" : "Imported"} ${format}: ${
+        dryRun ? counts.ready : counts.imported
+      } tasks, ${counts.duplicate} duplicates, ${counts.invalid} invalid`
+    );
+    return NextResponse.json({
+      success: counts.failed === 0,
+      format,
+      dryRun: dryRun === true,
+      rows,
+      counts,
+    });
+  } catch (error) {
+    console.error("Error importing tasks:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to import tasks",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTaskStore } from "@/lib/taskStore";
+import { requireApiKey } from "@/lib/auth";
+
+/**
+ * POST handler - One-shot migration of task dates to YYYY-MM-DD
+ *
+ * Usage: POST /api/tasks/migrate-dates
+ * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ *
+ * Rewrites every legacy "M/D/YYYY" date (e.g. "1/5/2025" or "01/05/2025") as
+ * "2025-01-05" in place. Safe to run more than once - already migrated rows
+ * are left alone.
+ *
+ * This requires API key authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check API key authentication
+    const authError = requireApiKey(request);
+    if (authError) {
+      return NextResponse.json(
+        {
+          error: authError.error,
+          message: authError.message,
+          hint: authError.hint,
+        },
+        { status: authError.status }
+      );
+    }
+
+    const migrated = await getTaskStore().migrateDates();
+
+    console.log(`✅ Migrated ${migrated} task dates to YYYY-MM-DD`);
+    return NextResponse.json({
+      success: true,
+      migrated,
+    });
+  } catch (error) {
+    console.error("Error migrating task dates:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to migrate task dates",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
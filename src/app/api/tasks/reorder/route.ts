@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getTaskStore,
+  reorderTasks,
+  validateReorderIds,
+} from "@/lib/taskStore";
+import { requireApiKey } from "@/lib/auth";
+
+/**
+ * POST handler - Sets the manual order of tasks
+ *
+ * Usage: POST /api/tasks/reorder
+ * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ * Body: { ids: string[] } - every task of a date, in the new order
+ *
+ * Positions are rewritten in a single write, so the order is never half-applied.
+ *
+ * This requires API key authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check API key authentication
+    const authError = requireApiKey(request);
+    if (authError) {
+      return NextResponse.json(
+        {
+          error: authError.error,
+          message: authError.message,
+          hint: authError.hint,
+        },
+        { status: authError.status }
+      );
+    }
+
+    const body = await request.json();
+    const { ids } = body;
+
+    const validationError = validateReorderIds(ids);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const tasks = await reorderTasks(getTaskStore(), ids);
+
+    console.log(`✅ Reordered ${tasks.length} tasks`);
+    return NextResponse.json({
+      success: true,
+      tasks,
+      count: tasks.length,
+    });
+  } catch (error) {
+    console.error("Error reordering tasks:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to reorder tasks",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
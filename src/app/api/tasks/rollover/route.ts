@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getTaskStore,
+  rolloverTasks,
+  validateRolloverRequest,
+} from "@/lib/taskStore";
+import { requireApiKey } from "@/lib/auth";
+
+/**
+ * POST handler - Rolls unfinished tasks from earlier dates over to a new date
+ *
+ * Usage: POST /api/tasks/rollover
+ * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ * Body: {
+ *   to: "2024-12-25",             // Date to roll over into (normally today)
+ *   ids?: string[],               // Roll over these tasks...
+ *   date?: "2024-12-20",          // ...or every unfinished task on this date
+ *   mode?: "move" | "copy",       // Default: "move"
+ *   record?: boolean              // Record where each task came from (default: false)
+ * }
+ *
+ * All changes are written in a single batch. Each task gets its own entry in
+ * `results`, so one task failing doesn't fail the rest.
+ *
+ * This requires API key authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check API key authentication
+    const authError = requireApiKey(request);
+    if (authError) {
+      return NextResponse.json(
+        {
+          error: authError.error,
+          message: authError.message,
+          hint: authError.hint,
+        },
+        { status: authError.status }
+      );
+    }
+
+    const body = await request.json();
+    const { to, ids, date, mode = "move", record = false } = body;
+
+    const validationError = validateRolloverRequest({ to, ids, date, mode });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const results = await rolloverTasks(getTaskStore(), {
+      to,
+      ids,
+      date,
+      mode,
+      record: record === true,
+    });
+    const failed = results.filter((result) => !result.success).length;
+
+    console.log(
+      `✅ Rolled over ${results.length - failed} of ${results.length} tasks to ${to} (${mode})`
+    );
+    return NextResponse.json({
+      success: failed === 0,
+      results,
+      count: results.length,
+      failed,
+    });
+  } catch (error) {
+    console.error("Error rolling over tasks:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to roll over tasks",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,160 +1,158 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getGoogleSheetsClient } from "@/lib/googleSheets";
+import {
+  checkParentTask,
+  getTaskStore,
+  hasTag,
+  isValidRecurrence,
+} from "@/lib/taskStore";
+import { isValidNotes, MAX_NOTES_LENGTH } from "@/lib/notes";
+import { isValidTimeSpent } from "@/lib/duration";
 import { requireApiKey } from "@/lib/auth";
+import {
+  eachTaskDateInRange,
+  formatTaskDate,
+  normalizeTaskDate,
+  parseTaskDate,
+} from "@/lib/dates";
+import type { Task } from "@/lib/tasks";
+import { getTaskETag } from "@/lib/etag";
+import { normalizeTag } from "@/lib/tags";
+import { isValidPriority } from "@/lib/priority";
+
+// Longest date range accepted by GET /api/tasks?from=&to=
+const MAX_RANGE_DAYS = 92;
 
 /**
- * GET handler - Fetches tasks for a specific date
+ * Handles GET /api/tasks?from=&to= - returns tasks grouped by date
+ * Every date in the range gets an entry, even if it has no tasks
+ */
+async function getTasksForRange(from: string, to: string, tag: string | null) {
+  const fromDate = parseTaskDate(from);
+  const toDate = parseTaskDate(to);
+
+  if (!fromDate || !toDate) {
+    return NextResponse.json(
+      {
+        error:
+          "Invalid date range. Use: /api/tasks?from=2024-12-20&to=2024-12-29",
+      },
+      { status: 400 }
+    );
+  }
+
+  const dates = eachTaskDateInRange(fromDate, toDate);
+  if (dates.length === 0 || dates.length > MAX_RANGE_DAYS) {
+    return NextResponse.json(
+      {
+        error: `'from' must not be after 'to', and the range can span at most ${MAX_RANGE_DAYS} days`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const fromIso = formatTaskDate(fromDate);
+  const toIso = formatTaskDate(toDate);
+  console.log(`📊 Fetching tasks from ${fromIso} to ${toIso}`);
+  const tasks = (await getTaskStore().listByDateRange(fromDate, toDate)).filter(
+    (task) => !tag || hasTag(task, tag)
+  );
+
+  // Group tasks under their ISO date key
+  const tasksByDate: Record<string, Task[]> = {};
+  for (const date of dates) {
+    tasksByDate[date] = [];
+  }
+  for (const task of tasks) {
+    const taskDate = normalizeTaskDate(task.date || "");
+    if (taskDate) {
+      tasksByDate[taskDate]?.push(task);
+    }
+  }
+
+  console.log(`✅ Returning ${tasks.length} tasks across ${dates.length} dates`);
+  return NextResponse.json({
+    success: true,
+    from: fromIso,
+    to: toIso,
+    ...(tag ? { tag } : {}),
+    tasksByDate,
+    count: tasks.length,
+  });
+}
+
+/**
+ * GET handler - Fetches tasks for a specific date or a date range
+ *
+ * Usage: GET /api/tasks?date=2024-12-25
+ *        GET /api/tasks?from=2024-12-20&to=2024-12-29 (grouped by date)
+ *        Add &tag=work to either to only return tasks tagged #work
  *
- * Usage: GET /api/tasks?date=12/25/2024
+ * Dates can be given as YYYY-MM-DD or M/D/YYYY; responses always use YYYY-MM-DD
  *
  * This is PUBLIC - anyone can read tasks (no authentication needed)
  */
 export async function GET(request: NextRequest) {
   try {
-    // Step 1: Get the date from the URL query parameter
-    // Example URL: /api/tasks?date=12/25/2024
+    // Step 1: Get the date (or range) from the URL query parameters
+    // Example URL: /api/tasks?date=2024-12-25
     const { searchParams } = new URL(request.url);
     const date = searchParams.get("date");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const tagParam = searchParams.get("tag");
+    const tag = tagParam ? normalizeTag(tagParam) : null;
 
-    // Step 2: Check if date was provided
-    if (!date) {
+    if (tagParam && !tag) {
       return NextResponse.json(
         {
-          error: "Date parameter is required. Use: /api/tasks?date=12/25/2024",
+          error:
+            "Invalid tag. Tags use letters, numbers, '_' and '-', e.g. tag=work or tag=%23work",
         },
         { status: 400 }
       );
     }
 
-    // Step 3: Connect to Google Sheets
-    console.log("📊 Fetching tasks for date:", date);
-    let sheets;
-    try {
-      sheets = await getGoogleSheetsClient();
-    } catch (authError) {
-      console.error("❌ Failed to authenticate with Google Sheets:", authError);
-      return NextResponse.json(
-        {
-          error: "Failed to authenticate with Google Sheets",
-          details:
-            authError instanceof Error
-              ? authError.message
-              : "Unknown authentication error",
-          hint: "Check your credentials and ensure the service account email has access to the spreadsheet",
-        },
-        { status: 500 }
-      );
-    }
-
-    // Step 4: Get your spreadsheet ID from environment variables
-    const spreadsheetId = process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
-    const sheetName = process.env.GOOGLE_SHEETS_SHEET_NAME || "Sheet1";
-
-    if (!spreadsheetId) {
-      console.error("❌ GOOGLE_SHEETS_SPREADSHEET_ID is not set");
-      return NextResponse.json(
-        { error: "Spreadsheet ID not configured" },
-        { status: 500 }
-      );
-    }
-
-    console.log(
-      "📋 Using spreadsheet ID:",
-      spreadsheetId.substring(0, 10) + "..."
-    );
-    console.log("📄 Using sheet name:", sheetName);
-
-    // Step 5: Read data from the sheet
-    // Range: Sheet1!A2:F1000 means:
-    // - Sheet1: the sheet name (configurable via env var)
-    // - A2:F1000: columns A through F, rows 2 to 1000 (skip header row 1)
-    const range = `${sheetName}!A2:F1000`;
-
-    let response;
-    try {
-      response = await sheets.spreadsheets.values.get({
-        spreadsheetId,
-        range,
-      });
-      console.log("✅ Successfully retrieved data from Google Sheets");
-    } catch (apiError: any) {
-      console.error("❌ Google Sheets API error:", apiError);
-
-      // Provide helpful error messages based on common issues
-      let errorMessage = apiError?.message || "Unknown error";
-      let hint = "";
-
-      if (
-        apiError?.code === 403 ||
-        errorMessage.includes("permission") ||
-        errorMessage.includes("access")
-      ) {
-        hint =
-          "The service account may not have access to the spreadsheet. Share the spreadsheet with the service account email.";
-      } else if (apiError?.code === 404 || errorMessage.includes("not found")) {
-        hint =
-          "Spreadsheet not found. Check that the GOOGLE_SHEETS_SPREADSHEET_ID is correct and the spreadsheet exists.";
-      } else if (errorMessage.includes("Unable to parse range")) {
-        hint = `Sheet "${sheetName}" may not exist. Check the sheet name or set GOOGLE_SHEETS_SHEET_NAME environment variable.`;
+    if (from || to) {
+      if (!from || !to) {
+        return NextResponse.json(
+          { error: "Both 'from' and 'to' are required for a date range" },
+          { status: 400 }
+        );
       }
+      return await getTasksForRange(from, to, tag);
+    }
 
+    // Step 2: Check if date was provided
+    if (!date) {
       return NextResponse.json(
         {
-          error: "Failed to read from Google Sheets",
-          details: errorMessage,
-          hint,
-          code: apiError?.code,
+          error:
+            "Date parameter is required. Use: /api/tasks?date=2024-12-25 or /api/tasks?from=2024-12-20&to=2024-12-29",
         },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
-    // Step 6: Get the rows (or empty array if no data)
-    const rows = response.data.values || [];
-    console.log(`📥 Retrieved ${rows.length} total rows from spreadsheet`);
-
-    if (rows.length === 0) {
-      console.log(
-        "⚠️ No data found in spreadsheet. This might be normal if the sheet is empty."
+    const normalizedDate = normalizeTaskDate(date);
+    if (!normalizedDate) {
+      return NextResponse.json(
+        { error: "Invalid date. Use YYYY-MM-DD (or M/D/YYYY)" },
+        { status: 400 }
       );
-      // Return empty tasks array instead of error
-      return NextResponse.json({
-        success: true,
-        date,
-        tasks: [],
-        count: 0,
-        message: "No tasks found for this date",
-      });
     }
 
-    // Step 7: Filter tasks for the requested date and convert to our format
-    // In Google Sheets:
-    // Column A (index 0) = id
-    // Column B (index 1) = date
-    // Column C (index 2) = text
-    // Column D (index 3) = completed (stored as "true" or "false" string)
-    // Column E (index 4) = created_at
-    // Column F (index 5) = time_spent
-    // Validate rows have minimum required columns (at least date column at index 1)
-    const tasks = rows
-      .filter((row) => {
-        // Ensure row has at least 2 elements (id and date) before accessing row[1]
-        return row && row.length >= 2 && row[1] === date;
-      })
-      .map((row) => ({
-        id: row[0] || "", // Column A: id
-        date: row[1] || "", // Column B: date
-        text: row[2] || "", // Column C: text
-        completed: row[3] === "true", // Column D: convert "true"/"false" string to boolean
-        created_at: row[4] || "", // Column E: created_at
-        timeSpent: row[5] || "", // Column F: time_spent
-      }));
+    // Step 3: Load tasks for the date from the configured store
+    console.log("📊 Fetching tasks for date:", normalizedDate);
+    const tasks = (await getTaskStore().listByDate(normalizedDate)).filter(
+      (task) => !tag || hasTag(task, tag)
+    );
 
-    // Step 8: Return the tasks as JSON
-    console.log(`✅ Returning ${tasks.length} tasks for date ${date}`);
+    // Step 4: Return the tasks as JSON
+    console.log(`✅ Returning ${tasks.length} tasks for date ${normalizedDate}`);
     return NextResponse.json({
       success: true,
-      date,
+      date: normalizedDate,
+      ...(tag ? { tag } : {}),
       tasks,
       count: tasks.length,
     });
@@ -185,6 +183,10 @@ export async function GET(request: NextRequest) {
           ? "Check your Google Sheets credentials in environment variables"
           : errorMessage.includes("Spreadsheet ID")
           ? "Check that GOOGLE_SHEETS_SPREADSHEET_ID is set correctly"
+          : errorMessage.includes("permission")
+          ? "The service account may not have access to the spreadsheet. Share the spreadsheet with the service account email."
+          : errorMessage.includes("Unable to parse range")
+          ? "The sheet may not exist. Check the sheet name or set GOOGLE_SHEETS_SHEET_NAME environment variable."
           : "Check Vercel logs for more details",
         // Include environment status (without sensitive data)
         environmentStatus: {
@@ -210,7 +212,12 @@ export async function GET(request: NextRequest) {
  *
  * Usage: POST /api/tasks
  * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
- * Body: { text: string, date: string, completed?: boolean }
+ * Body: { text: string, date: string (YYYY-MM-DD or M/D/YYYY), completed?: boolean, timeSpent?: string | number, recurrence?: string, parent_id?: string, priority?: 1 | 2 | 3, notes?: string }
+ *
+ * A `recurrence` rule (e.g. "weekly:mon") makes the task repeat from `date` on.
+ * A `parent_id` makes the task a subtask of a task on the same date.
+ * A "!1"-"!3" token in the text sets the priority too (an explicit `priority` wins).
+ * `timeSpent` takes a duration (90, "45m", "1h30m", "1:30", "1.5h") and is stored as whole minutes.
  *
  * This requires API key authentication - only authorized users can create tasks
  * GET requests are public (read-only), but POST requires authentication
@@ -232,87 +239,95 @@ export async function POST(request: NextRequest) {
 
     // Step 1: Parse the request body
     const body = await request.json();
-    const { text, date, completed, timeSpent } = body;
+    const {
+      text,
+      date,
+      completed,
+      timeSpent,
+      recurrence,
+      parent_id,
+      priority,
+      notes,
+    } = body;
 
     // Step 2: Validate required fields
     if (!text || !date) {
       return NextResponse.json(
         {
           error:
-            "Both 'text' and 'date' are required. Use: { text: 'Task text', date: '12/25/2024' }",
+            "Both 'text' and 'date' are required. Use: { text: 'Task text', date: '2024-12-25' }",
         },
         { status: 400 }
       );
     }
 
-    // Step 3: Connect to Google Sheets
-    let sheets;
-    try {
-      sheets = await getGoogleSheetsClient();
-    } catch (authError) {
-      console.error("❌ Failed to authenticate with Google Sheets:", authError);
+    if (!normalizeTaskDate(String(date))) {
+      return NextResponse.json(
+        { error: "Invalid date. Use YYYY-MM-DD (or M/D/YYYY)" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidTimeSpent(timeSpent)) {
       return NextResponse.json(
         {
-          error: "Failed to authenticate with Google Sheets",
-          details:
-            authError instanceof Error
-              ? authError.message
-              : "Unknown authentication error",
+          error:
+            "Invalid timeSpent. Use a duration like 90, 45m, 1h30m, 1:30 or 1.5h",
         },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
-    // Step 4: Get your spreadsheet ID from environment variables
-    const spreadsheetId = process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
-    const sheetName = process.env.GOOGLE_SHEETS_SHEET_NAME || "Sheet1";
-
-    if (!spreadsheetId) {
+    if (!isValidRecurrence(recurrence)) {
       return NextResponse.json(
-        { error: "Spreadsheet ID not configured" },
-        { status: 500 }
+        {
+          error:
+            "Invalid recurrence. Use daily, weekdays, weekly:mon,thu, monthly:15 or every:3",
+        },
+        { status: 400 }
       );
     }
 
-    // Step 5: Generate ID and timestamp
-    const id = `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const created_at = new Date().toISOString();
-    const completedValue = completed === true ? "true" : "false";
-    const timeSpentValue = timeSpent !== undefined ? String(timeSpent) : "";
+    if (priority !== undefined && !isValidPriority(priority)) {
+      return NextResponse.json(
+        { error: "Invalid priority. Use 1, 2 or 3" },
+        { status: 400 }
+      );
+    }
 
-    // Step 6: Prepare the new row data
-    // Format: [id, date, text, completed, created_at, time_spent]
-    const newRow = [id, date, text.trim(), completedValue, created_at, timeSpentValue];
+    if (!isValidNotes(notes)) {
+      return NextResponse.json(
+        { error: `'notes' must be text of at most ${MAX_NOTES_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
 
-    // Step 7: Append the new row to the sheet
-    // Range: Sheet1!A:F means append to columns A through F
-    const range = `${sheetName}!A:F`;
-    await sheets.spreadsheets.values.append({
-      spreadsheetId,
-      range,
-      valueInputOption: "USER_ENTERED", // This allows strings to be entered as-is
-      insertDataOption: "INSERT_ROWS", // Insert a new row
-      requestBody: {
-        values: [newRow],
-      },
-    });
+    const store = getTaskStore();
+    if (parent_id) {
+      const parentError = await checkParentTask(store, parent_id, date);
+      if (parentError) {
+        return NextResponse.json({ error: parentError }, { status: 400 });
+      }
+    }
 
-    // Step 8: Return the created task
-    const createdTask = {
-      id,
+    // Step 3: Save the task through the configured store
+    const createdTask = await store.create({
+      text,
       date,
-      text: text.trim(),
-      completed: completed === true,
-      created_at,
-      timeSpent: timeSpentValue,
-    };
+      completed,
+      timeSpent,
+      recurrence,
+      parent_id,
+      priority,
+      notes,
+    });
 
     return NextResponse.json(
       {
         success: true,
         task: createdTask,
       },
-      { status: 201 }
+      { status: 201, headers: { ETag: getTaskETag(createdTask) } }
     );
   } catch (error) {
     // If something goes wrong, log it and return an error
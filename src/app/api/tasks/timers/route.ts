@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getTimeEntryStore } from "@/lib/timeEntryStore";
+
+/**
+ * GET handler - Lists the timers that are currently running
+ *
+ * Usage: GET /api/tasks/timers
+ * Running timers are stored, so they carry on across page reloads.
+ * This is PUBLIC, like the other read endpoints
+ */
+export async function GET() {
+  try {
+    const entries = await getTimeEntryStore().listRunning();
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      count: entries.length,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching running timers:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch running timers",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
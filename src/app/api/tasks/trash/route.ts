@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getTaskStore,
+  getTrashRetentionDays,
+  purgeExpiredTrash,
+} from "@/lib/taskStore";
+import { requireApiKey } from "@/lib/auth";
+
+/**
+ * GET handler - Lists tasks in the trash
+ *
+ * Usage: GET /api/tasks/trash
+ *
+ * Read-only: expired tasks are purged with DELETE /api/tasks/trash.
+ * This is PUBLIC, like the other read endpoints
+ */
+export async function GET() {
+  try {
+    // Most recently deleted first
+    const tasks = (await getTaskStore().listDeleted()).sort((a, b) =>
+      (b.deleted_at || "").localeCompare(a.deleted_at || "")
+    );
+
+    return NextResponse.json({
+      success: true,
+      tasks,
+      count: tasks.length,
+      retentionDays: getTrashRetentionDays(),
+    });
+  } catch (error) {
+    console.error("❌ Error fetching trash:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch trash",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler - Permanently removes tasks that have been in the trash
+ * longer than the retention period (TRASH_RETENTION_DAYS, default 30)
+ *
+ * Usage: DELETE /api/tasks/trash
+ * Headers: Authorization: Bearer YOUR_API_KEY (or X-API-Key: YOUR_API_KEY)
+ *
+ * Meant to be called from a scheduled job. This requires API key authentication
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Check API key authentication
+    const authError = requireApiKey(request);
+    if (authError) {
+      return NextResponse.json(
+        {
+          error: authError.error,
+          message: authError.message,
+          hint: authError.hint,
+        },
+        { status: authError.status }
+      );
+    }
+
+    const purged = await purgeExpiredTrash(getTaskStore());
+
+    return NextResponse.json({
+      success: true,
+      purged,
+      retentionDays: getTrashRetentionDays(),
+    });
+  } catch (error) {
+    console.error("❌ Error purging trash:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to purge trash",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,24 @@
 "use client";
 
 import { useEffect, useRef, useState, useMemo } from "react";
+import Link from "next/link";
 import { CardWrapper } from "@/components/CardWrapper";
 import { Header } from "@/components/Header";
-import { Button } from "@/components/ui/button";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ImportDialog } from "@/components/ImportDialog";
+import { TrashPanel } from "@/components/TrashPanel";
+import { Button, buttonVariants } from "@/components/ui/button";
 import { useCardFocus } from "@/hooks/useCardFocus";
-import { LucideFlipHorizontal, SwitchCameraIcon, Check } from "lucide-react";
-
-function formatDate(date: Date): string {
-  return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`;
-}
+import { useTasksRangeQuery } from "@/hooks/useTasksQuery";
+import { formatTaskDate } from "@/lib/dates";
+import { cn } from "@/lib/utils";
+import {
+  LucideFlipHorizontal,
+  SwitchCameraIcon,
+  Check,
+  ChartColumn,
+  Upload,
+} from "lucide-react";
 
 function getDayName(date: Date): string {
   const days = [
@@ -30,6 +39,7 @@ export default function Home() {
   const today = new Date();
   const [cardStyles, setCardStyles] = useState<Record<string, CardStyle>>({});
   const [showStyleMenu, setShowStyleMenu] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const styleMenuRef = useRef<HTMLDivElement>(null);
 
   // Generate 10 cards (5 days before to 4 days after today = 10 cards total)
@@ -42,7 +52,7 @@ export default function Home() {
         date.setDate(today.getDate() + (i - daysBefore)); // -5 to +4
         return {
           date,
-          formattedDate: formatDate(date),
+          formattedDate: formatTaskDate(date),
           day: getDayName(date),
           isToday: i === daysBefore,
         };
@@ -50,6 +60,13 @@ export default function Home() {
     [today, daysBefore, totalDays]
   );
 
+  // Load every visible card's tasks in one request; cards wait for it before
+  // falling back to their own per-date request
+  const { isPending: isRangePending } = useTasksRangeQuery(
+    cards[0].formattedDate,
+    cards[cards.length - 1].formattedDate
+  );
+
   // Use custom hook for card focus management
   const { focusedIndex, scrollContainerRef, setCardRef, scrollToCard } =
     useCardFocus({
@@ -119,6 +136,7 @@ export default function Home() {
                   day={card.day}
                   isFocused={isFocused}
                   cardStyle={cardStyles[card.formattedDate] || "line"}
+                  waitForRange={isRangePending}
                 />
               </div>
             );
@@ -180,7 +198,33 @@ export default function Home() {
             </div>
           )}
         </div>
+        <Button
+          variant="outline"
+          className="text-lg gap-2"
+          onClick={() => setShowImport(true)}
+        >
+          <Upload size={20} />
+          Import
+        </Button>
+        <ExportMenu
+          from={cards[0].formattedDate}
+          to={cards[cards.length - 1].formattedDate}
+        />
+        <TrashPanel />
+        <Link
+          href="/reports"
+          className={cn(buttonVariants({ variant: "outline" }), "text-lg gap-2")}
+        >
+          <ChartColumn size={20} />
+          Reports
+        </Link>
       </div>
+      {showImport && (
+        <ImportDialog
+          date={cards[daysBefore].formattedDate}
+          onClose={() => setShowImport(false)}
+        />
+      )}
     </div>
   );
 }
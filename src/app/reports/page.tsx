@@ -0,0 +1,236 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Header } from "@/components/Header";
+import { Card, CardContent } from "@/components/ui/card";
+import { buttonVariants } from "@/components/ui/button";
+import { useTimeReportQuery } from "@/hooks/useTasksQuery";
+import { cn } from "@/lib/utils";
+import { formatDisplayDate, formatTaskDate } from "@/lib/dates";
+import { formatDuration } from "@/lib/duration";
+import { stripTags } from "@/lib/tags";
+import type { TimeReportTotals } from "@/lib/timeReport";
+
+// Date ranges offered on the dashboard, in days ending today
+const RANGE_OPTIONS = [7, 30, 90];
+
+/**
+ * Completed tasks as a share of planned ones ("60%"), or "-" with nothing planned
+ */
+function formatRatio({ tasks, completed }: TimeReportTotals): string {
+  return tasks > 0 ? `${Math.round((completed / tasks) * 100)}%` : "-";
+}
+
+/**
+ * Horizontal bar showing a value as a share of `max`
+ */
+function ShareBar({ value, max }: { value: number; max: number }) {
+  return (
+    <div className="h-2 w-full bg-gray-100 rounded">
+      <div
+        className="h-2 bg-[#4728F5] rounded"
+        style={{ width: max > 0 ? `${(value / max) * 100}%` : 0 }}
+      />
+    </div>
+  );
+}
+
+/**
+ * "Where did my time go?" dashboard - time per day, top time sinks, and planned vs completed
+ */
+export default function ReportsPage() {
+  const [days, setDays] = useState(RANGE_OPTIONS[0]);
+  const { from, to } = useMemo(() => {
+    const end = new Date();
+    const start = new Date(end);
+    start.setDate(end.getDate() - (days - 1));
+    return { from: formatTaskDate(start), to: formatTaskDate(end) };
+  }, [days]);
+  const { data: report, isLoading, error } = useTimeReportQuery(from, to);
+
+  const maxDayMinutes = Math.max(0, ...(report?.byDay.map((d) => d.minutes) ?? []));
+  const maxTagMinutes = report?.byTag[0]?.minutes ?? 0;
+
+  return (
+    <div className="flex flex-col min-h-screen font-mono bg-gradient-to-b from-[#f5f3f0] to-[#d4d8d6]">
+      <Header />
+
+      <main className="w-full max-w-4xl mx-auto px-6 pb-10 space-y-6">
+        <div className="flex items-center justify-between">
+          <Link
+            href="/"
+            className={cn(buttonVariants({ variant: "outline" }), "gap-2")}
+          >
+            <ArrowLeft size={16} />
+            Cards
+          </Link>
+          <div className="flex gap-2">
+            {RANGE_OPTIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setDays(option)}
+                className={cn(
+                  "px-3 py-1 text-sm rounded border border-gray-300",
+                  option === days
+                    ? "bg-white text-[#4728F5] border-[#4728F5]"
+                    : "text-gray-600 hover:text-[#4728F5]"
+                )}
+              >
+                {option} days
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading report...</p>
+        ) : error || !report ? (
+          <p className="text-sm text-red-500">
+            Failed to load the report. Please try again.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: "Time tracked", value: formatDuration(report.total.minutes) },
+                { label: "Tasks planned", value: String(report.total.tasks) },
+                {
+                  label: "Completed",
+                  value: `${report.total.completed} (${formatRatio(report.total)})`,
+                },
+                {
+                  label: "On unfinished tasks",
+                  value: formatDuration(report.byCompletion.open.minutes),
+                },
+              ].map(({ label, value }) => (
+                <Card key={label}>
+                  <CardContent className="p-4">
+                    <p className="text-xs text-gray-500">{label}</p>
+                    <p className="text-xl text-gray-800">{value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-700 mb-4">Time per day</p>
+                <div className="flex items-end gap-1 h-40">
+                  {report.byDay.map((day) => (
+                    <div
+                      key={day.date}
+                      className="flex-1 h-full flex items-end"
+                      title={`${formatDisplayDate(day.date)}: ${formatDuration(
+                        day.minutes
+                      )}, ${day.completed}/${day.tasks} tasks completed`}
+                    >
+                      <div
+                        className="w-full bg-[#4728F5] rounded-t"
+                        style={{
+                          height:
+                            maxDayMinutes > 0
+                              ? `${(day.minutes / maxDayMinutes) * 100}%`
+                              : 0,
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between mt-2 text-xs text-gray-400">
+                  <span>{formatDisplayDate(report.from)}</span>
+                  <span>{formatDisplayDate(report.to)}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <Card>
+                <CardContent className="p-4 space-y-3">
+                  <p className="text-sm text-gray-700">Top time sinks</p>
+                  {report.topTasks.length === 0 ? (
+                    <p className="text-xs text-gray-400">No time tracked yet</p>
+                  ) : (
+                    report.topTasks.map((task) => (
+                      <div key={task.id} className="flex items-center gap-3 text-sm">
+                        <span
+                          className={cn(
+                            "flex-1 truncate text-gray-700",
+                            task.completed && "line-through text-gray-400"
+                          )}
+                        >
+                          {stripTags(task.text)}
+                        </span>
+                        <span className="text-xs text-gray-400">
+                          {formatDisplayDate(task.date)}
+                        </span>
+                        <span className="w-16 text-right text-gray-600">
+                          {formatDuration(task.minutes)}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-4 space-y-3">
+                  <p className="text-sm text-gray-700">Time per tag</p>
+                  {report.byTag.length === 0 ? (
+                    <p className="text-xs text-gray-400">No tagged tasks</p>
+                  ) : (
+                    report.byTag.map((tag) => (
+                      <div key={tag.tag} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-700">#{tag.tag}</span>
+                          <span className="text-gray-600">
+                            {formatDuration(tag.minutes)}
+                          </span>
+                        </div>
+                        <ShareBar value={tag.minutes} max={maxTagMinutes} />
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-700 mb-3">Planned vs completed</p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-400 text-left">
+                      <th className="font-normal pb-2">Week of</th>
+                      <th className="font-normal pb-2">Time</th>
+                      <th className="font-normal pb-2">Completed</th>
+                      <th className="font-normal pb-2 w-1/3" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.byWeek.map((week) => (
+                      <tr key={week.week} className="text-gray-700">
+                        <td className="py-1">
+                          {formatDisplayDate(week.week)}
+                        </td>
+                        <td className="py-1">{formatDuration(week.minutes)}</td>
+                        <td className="py-1">
+                          {week.completed}/{week.tasks} ({formatRatio(week)})
+                        </td>
+                        <td className="py-1">
+                          <ShareBar value={week.completed} max={week.tasks} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
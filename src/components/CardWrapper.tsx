@@ -10,6 +10,7 @@ interface CardWrapperProps {
   day: string;
   isFocused: boolean;
   cardStyle: CardStyle;
+  waitForRange?: boolean; // Hold the per-date request while the page's range query is loading
 }
 
 /**
@@ -21,10 +22,13 @@ export function CardWrapper({
   day,
   isFocused,
   cardStyle,
+  waitForRange = false,
 }: CardWrapperProps) {
-  const { data: cardTasks = [], isLoading } = useTasksQuery(date);
+  const { data: cardTasks = [], isLoading } = useTasksQuery(date, {
+    enabled: !waitForRange,
+  });
 
-  if (isLoading) {
+  if (isLoading || waitForRange) {
     return <CardSkeleton />;
   }
 
@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDisplayDate } from "@/lib/dates";
+import { getTaskExportUrl } from "@/lib/tasks";
+import type { ExportFormat } from "@/lib/taskExport";
+
+interface ExportMenuProps {
+  from: string; // First date to export ("YYYY-MM-DD")
+  to: string; // Last date to export
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  md: "Markdown",
+  todotxt: "todo.txt",
+};
+
+/**
+ * Toolbar button that downloads the tasks between two dates in a chosen format
+ */
+export function ExportMenu({ from, to }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        variant="outline"
+        className="text-lg gap-2"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <Download size={20} />
+        Export
+      </Button>
+      {isOpen && (
+        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-56 bg-white border border-gray-300 rounded-md shadow-lg z-50 py-1">
+          <div className="px-4 py-1 text-xs text-gray-400">
+            {formatDisplayDate(from)} - {formatDisplayDate(to)}
+          </div>
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+            <a
+              key={format}
+              href={getTaskExportUrl(from, to, format)}
+              download
+              onClick={() => setIsOpen(false)}
+              className="block px-4 py-2 text-base hover:bg-gray-100"
+            >
+              {FORMAT_LABELS[format]}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
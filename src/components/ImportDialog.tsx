@@ -0,0 +1,265 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useImportTasksMutation } from "@/hooks/useTasksQuery";
+import { cn } from "@/lib/utils";
+import { formatDisplayDate } from "@/lib/dates";
+import {
+  countImportRows,
+  type ImportFormat,
+  type ImportRow,
+  type ImportRowStatus,
+} from "@/lib/taskImport";
+
+interface ImportDialogProps {
+  date: string; // Date for rows that don't have one
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ImportFormat | "auto", string> = {
+  auto: "Detect format",
+  csv: "CSV",
+  md: "Markdown",
+  todotxt: "todo.txt",
+};
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  ready: "New",
+  invalid: "Invalid",
+  duplicate: "Duplicate",
+  imported: "Imported",
+  failed: "Failed",
+};
+
+/**
+ * Dialog for importing tasks from a CSV, Markdown or todo.txt file
+ * Shows a preview of every row (with why a row will be skipped) before anything is written
+ */
+export function ImportDialog({ date, onClose }: ImportDialogProps) {
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState<string>();
+  const [format, setFormat] = useState<ImportFormat | "auto">("auto");
+  const [preview, setPreview] = useState<ImportRow[] | null>(null);
+  const importMutation = useImportTasksMutation();
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [onClose]);
+
+  const request = {
+    content,
+    fileName,
+    format: format === "auto" ? undefined : format,
+    date,
+  };
+  const counts = preview ? countImportRows(preview) : null;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setContent(await file.text());
+    setFileName(file.name);
+    setPreview(null);
+  };
+
+  const handlePreview = () => {
+    importMutation.mutate(
+      { ...request, dryRun: true },
+      {
+        onSuccess: (rows) => setPreview(rows),
+        onError: (error) => {
+          toast.error(error.message || "Failed to read the file. Please try again.");
+        },
+      }
+    );
+  };
+
+  const handleImport = () => {
+    importMutation.mutate(request, {
+      onSuccess: (rows) => {
+        const { imported, failed } = countImportRows(rows);
+        if (failed > 0) {
+          setPreview(rows);
+          toast.error(`Imported ${imported} tasks, ${failed} failed`);
+          return;
+        }
+        toast.success(`Imported ${imported} ${imported === 1 ? "task" : "tasks"}`);
+        onClose();
+      },
+      onError: () => {
+        toast.error("Failed to import tasks. Please try again.");
+      },
+    });
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Import tasks"
+        className="w-full max-w-2xl bg-white rounded-md shadow-lg border border-gray-300 font-mono"
+      >
+        <div className="flex items-start justify-between gap-3 px-4 pt-4">
+          <div>
+            <p className="text-sm font-medium text-gray-800">Import tasks</p>
+            <p className="text-xs text-gray-400">
+              CSV, Markdown checklists or todo.txt. Rows without a date go on{" "}
+              {formatDisplayDate(date)}.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded"
+            aria-label="Close"
+          >
+            <X size={14} className="text-gray-400 hover:text-[#4728F5]" />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="file"
+              accept=".csv,.md,.markdown,.txt,text/plain,text/csv,text/markdown"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="flex-1 text-xs text-gray-600"
+            />
+            <select
+              value={format}
+              onChange={(e) => {
+                setFormat(e.target.value as ImportFormat | "auto");
+                setPreview(null);
+              }}
+              className="text-xs border border-gray-300 rounded px-2 py-1 focus:outline-none focus:border-[#4728F5]"
+            >
+              {(Object.keys(FORMAT_LABELS) as (ImportFormat | "auto")[]).map(
+                (value) => (
+                  <option key={value} value={value}>
+                    {FORMAT_LABELS[value]}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+
+          {preview ? (
+            <div className="h-64 overflow-y-auto border border-gray-200 rounded">
+              {preview.length === 0 ? (
+                <p className="p-3 text-xs text-gray-400">No tasks found</p>
+              ) : (
+                preview.map((row) => (
+                  <div
+                    key={row.line}
+                    className="flex items-start gap-3 px-3 py-1.5 text-xs border-b border-gray-100 last:border-b-0"
+                  >
+                    <span className="w-8 shrink-0 text-right text-gray-400">
+                      {row.line}
+                    </span>
+                    <span
+                      className={cn(
+                        "w-20 shrink-0",
+                        row.status === "ready" || row.status === "imported"
+                          ? "text-[#4728F5]"
+                          : row.status === "duplicate"
+                          ? "text-gray-400"
+                          : "text-red-500"
+                      )}
+                    >
+                      {STATUS_LABELS[row.status]}
+                    </span>
+                    <span className="flex-1 min-w-0 break-words text-gray-700">
+                      {row.task ? (
+                        <>
+                          <span className={cn(row.task.completed && "line-through")}>
+                            {row.task.text}
+                          </span>{" "}
+                          <span className="text-gray-400">
+                            {formatDisplayDate(row.task.date)}
+                          </span>
+                        </>
+                      ) : null}
+                      {row.error && (
+                        <span className="block text-gray-400">{row.error}</span>
+                      )}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          ) : (
+            <textarea
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                setFileName(undefined);
+              }}
+              placeholder={"...or paste your list here\n\n## 2024-12-25\n- [ ] Wrap presents\n- [x] Buy tree"}
+              className="w-full h-64 p-2 text-xs border border-gray-300 rounded resize-none focus:outline-none focus:border-[#4728F5]"
+              autoFocus
+            />
+          )}
+
+          {counts && (
+            <p className="text-xs text-gray-500">
+              {counts.ready} to import, {counts.duplicate}{" "}
+              {counts.duplicate === 1 ? "duplicate" : "duplicates"} and{" "}
+              {counts.invalid} invalid will be skipped
+              {counts.failed > 0 && `, ${counts.failed} failed`}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 pb-4">
+          {preview ? (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setPreview(null)}>
+                Back
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleImport}
+                disabled={importMutation.isPending || counts!.ready === 0}
+              >
+                Import {counts!.ready} {counts!.ready === 1 ? "task" : "tasks"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" size="sm" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handlePreview}
+                disabled={importMutation.isPending || !content.trim()}
+              >
+                Preview
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
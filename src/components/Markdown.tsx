@@ -0,0 +1,159 @@
+import { Fragment, type ReactNode } from "react";
+
+/**
+ * Renders basic markdown for task notes
+ *
+ * Supports headings (#, ##, ###), bullet and numbered lists, ``` code blocks,
+ * and inline **bold**, *italic*, `code` and [links](https://...).
+ * Output is built from React elements (never raw HTML), so notes can't inject markup.
+ */
+export function Markdown({ source }: { source: string }) {
+  return <div className="space-y-2">{renderBlocks(source)}</div>;
+}
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "code"; text: string }
+  | { type: "paragraph"; lines: string[] };
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+function parseBlocks(source: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n/g, "\n").split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const last = blocks[blocks.length - 1];
+
+    if (line.trim().startsWith("```")) {
+      // Code block runs to the closing fence (or the end of the notes)
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith("```")) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    const bullet = BULLET.exec(line);
+    const numbered = NUMBERED.exec(line);
+
+    if (!line.trim()) {
+      continue;
+    } else if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      const item = (bullet || numbered)![1];
+      if (last?.type === "list" && last.ordered === ordered && !!lines[i - 1]?.trim()) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: "list", ordered, items: [item] });
+      }
+    } else if (last?.type === "paragraph" && !!lines[i - 1]?.trim()) {
+      last.lines.push(line);
+    } else {
+      blocks.push({ type: "paragraph", lines: [line] });
+    }
+  }
+
+  return blocks;
+}
+
+function renderBlocks(source: string): ReactNode[] {
+  return parseBlocks(source).map((block, index) => {
+    switch (block.type) {
+      case "heading":
+        return (
+          <p
+            key={index}
+            className={
+              block.level === 1
+                ? "text-base font-semibold text-gray-800"
+                : "text-sm font-semibold text-gray-800"
+            }
+          >
+            {renderInline(block.text)}
+          </p>
+        );
+      case "list": {
+        const List = block.ordered ? "ol" : "ul";
+        return (
+          <List
+            key={index}
+            className={block.ordered ? "list-decimal pl-5" : "list-disc pl-5"}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderInline(item)}</li>
+            ))}
+          </List>
+        );
+      }
+      case "code":
+        return (
+          <pre
+            key={index}
+            className="bg-gray-50 rounded p-2 text-xs font-mono overflow-x-auto"
+          >
+            {block.text}
+          </pre>
+        );
+      default:
+        return (
+          <p key={index}>
+            {block.lines.map((line, lineIndex) => (
+              <Fragment key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderInline(line)}
+              </Fragment>
+            ))}
+          </p>
+        );
+    }
+  });
+}
+
+const INLINE =
+  /(`[^`]+`|\*\*[^*]+\*\*|\*[^*\s][^*]*\*|_[^_\s][^_]*_|\[[^\]]+\]\(https?:\/\/[^)\s]+\))/g;
+
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE).map((part, index) => {
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return (
+        <code key={index} className="bg-gray-100 rounded px-1 text-xs font-mono">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (
+      part.length > 2 &&
+      ((part.startsWith("*") && part.endsWith("*")) ||
+        (part.startsWith("_") && part.endsWith("_")))
+    ) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    const link = /^\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)$/.exec(part);
+    if (link) {
+      return (
+        <a
+          key={index}
+          href={link[2]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-[#4728F5] underline"
+        >
+          {link[1]}
+        </a>
+      );
+    }
+    return <Fragment key={index}>{part}</Fragment>;
+  });
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Flag } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PRIORITIES, formatPriority, type Priority } from "@/lib/priority";
+
+interface PriorityMenuProps {
+  priority?: number;
+  disabled?: boolean;
+  onChange: (priority: Priority | null) => void;
+}
+
+// Text colour for each priority badge
+const PRIORITY_COLORS: Record<Priority, string> = {
+  1: "text-red-500",
+  2: "text-amber-500",
+  3: "text-blue-500",
+};
+
+/**
+ * Task row badge for setting a task's priority
+ * Shows the priority when one is set, otherwise a flag on hover
+ */
+export function PriorityMenu({ priority, disabled, onChange }: PriorityMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const current = PRIORITIES.find((p) => p === priority);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleSelect = (value: Priority | null) => {
+    setIsOpen(false);
+    if (value !== (current ?? null)) {
+      onChange(value);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={cn(
+          "p-1 hover:bg-gray-100 rounded text-xs font-mono font-semibold",
+          current
+            ? PRIORITY_COLORS[current]
+            : "opacity-0 group-hover:opacity-100 transition-opacity"
+        )}
+        aria-label={current ? `Priority ${formatPriority(current)}` : "Set priority"}
+      >
+        {current ? (
+          formatPriority(current)
+        ) : (
+          <Flag size={14} className="text-gray-400 hover:text-[#4728F5]" />
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-32 bg-white border border-gray-300 rounded-md shadow-lg z-50 py-1">
+          {PRIORITIES.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleSelect(value)}
+              className={cn(
+                "w-full text-left px-3 py-2 text-xs font-mono hover:bg-gray-50",
+                PRIORITY_COLORS[value],
+                value === current && "bg-gray-50"
+              )}
+            >
+              {formatPriority(value)}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => handleSelect(null)}
+            className="w-full text-left px-3 py-2 text-xs text-gray-700 hover:bg-gray-50 border-t border-gray-100"
+          >
+            No priority
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Repeat } from "lucide-react";
+import { parseTaskDate } from "@/lib/dates";
+import {
+  describeRecurrenceRule,
+  formatRecurrenceRule,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+
+interface RepeatMenuProps {
+  date: string; // Card date the presets are based on ("YYYY-MM-DD")
+  repeating: boolean; // Whether the task is an occurrence of a repeating task
+  disabled?: boolean;
+  onRepeat: (recurrence: string) => void;
+  onStop: () => void;
+}
+
+/**
+ * Task row button for making a task repeat (or changing how it repeats)
+ */
+export function RepeatMenu({
+  date,
+  repeating,
+  disabled,
+  onRepeat,
+  onStop,
+}: RepeatMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const day = parseTaskDate(date) ?? new Date();
+  const presets: RecurrenceRule[] = [
+    { type: "daily" },
+    { type: "weekdays" },
+    { type: "weekly", days: [day.getDay()] },
+    { type: "monthly", day: day.getDate() },
+    { type: "interval", days: 14 },
+  ];
+
+  const handleSelect = (rule: RecurrenceRule) => {
+    setIsOpen(false);
+    onRepeat(formatRecurrenceRule(rule));
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-gray-100 rounded"
+        aria-label={repeating ? "Change how task repeats" : "Repeat task"}
+      >
+        <Repeat size={14} className="text-gray-400 hover:text-[#4728F5]" />
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-56 bg-white border border-gray-300 rounded-md shadow-lg z-50 py-1">
+          {presets.map((rule) => (
+            <button
+              key={formatRecurrenceRule(rule)}
+              type="button"
+              onClick={() => handleSelect(rule)}
+              className="w-full text-left px-3 py-2 text-xs text-gray-700 hover:bg-gray-50"
+            >
+              {describeRecurrenceRule(rule)}
+            </button>
+          ))}
+          {repeating && (
+            <button
+              type="button"
+              onClick={() => {
+                setIsOpen(false);
+                onStop();
+              }}
+              className="w-full text-left px-3 py-2 text-xs text-red-600 hover:bg-gray-50 border-t border-gray-100"
+            >
+              Stop repeating
+              <span className="block text-gray-400">
+                Keeps this one and any you&apos;ve changed
+              </span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Forward } from "lucide-react";
+import type { RolloverMode } from "@/lib/taskStore";
+
+interface RolloverMenuProps {
+  count?: number; // Unfinished tasks that can be rolled over; unset for a single task's row
+  disabled?: boolean;
+  onRollover: (mode: RolloverMode) => void;
+}
+
+/**
+ * Button for rolling unfinished tasks over to today, with a choice of copying or moving
+ * In a card header it rolls over the whole card (and shows the count); in a task row, just that task.
+ */
+export function RolloverMenu({ count, disabled, onRollover }: RolloverMenuProps) {
+  const isRow = count === undefined;
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleSelect = (mode: RolloverMode) => {
+    setIsOpen(false);
+    onRollover(mode);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      {isRow ? (
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+          className={`${
+            isOpen ? "opacity-100" : "opacity-0"
+          } group-hover:opacity-100 transition-opacity p-1 hover:bg-gray-100 rounded`}
+          aria-label="Roll over to today"
+        >
+          <Forward size={14} className="text-gray-400 hover:text-[#4728F5]" />
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-[#4728F5] disabled:opacity-50"
+          aria-label="Roll over unfinished tasks to today"
+        >
+          <Forward size={12} />
+          {count}
+        </button>
+      )}
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-56 bg-white border border-gray-300 rounded-md shadow-lg z-50 py-1">
+          <button
+            type="button"
+            onClick={() => handleSelect("copy")}
+            className="w-full text-left px-3 py-2 text-xs text-gray-700 hover:bg-gray-50"
+          >
+            {isRow ? "Copy to today" : "Copy unfinished to today"}
+            <span className="block text-gray-400">
+              {isRow ? "Marks it here as deferred" : "Marks them here as deferred"}
+            </span>
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSelect("move")}
+            className="w-full text-left px-3 py-2 text-xs text-gray-700 hover:bg-gray-50"
+          >
+            {isRow ? "Move to today" : "Move unfinished to today"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Markdown } from "@/components/Markdown";
+import { cn } from "@/lib/utils";
+import { formatDisplayDate } from "@/lib/dates";
+import { MAX_NOTES_LENGTH } from "@/lib/notes";
+import { stripTags } from "@/lib/tags";
+
+interface TaskDetailDialogProps {
+  task: { text: string; notes?: string };
+  date: string;
+  onSave: (notes: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Expanded view of a task for writing and previewing its markdown notes
+ * Rendered into document.body so it isn't clipped or scaled by the card
+ */
+export function TaskDetailDialog({ task, date, onSave, onClose }: TaskDetailDialogProps) {
+  const [notes, setNotes] = useState(task.notes || "");
+  const [tab, setTab] = useState<"write" | "preview">(task.notes ? "preview" : "write");
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [onClose]);
+
+  const handleSave = () => {
+    if (notes.length > MAX_NOTES_LENGTH) return;
+    if (notes.trim() !== (task.notes || "").trim()) {
+      onSave(notes.trim());
+    }
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Ctrl/Cmd+Enter saves
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  const tabClass = (value: "write" | "preview") =>
+    cn(
+      "px-3 py-1 text-xs rounded",
+      tab === value ? "bg-gray-100 text-gray-800" : "text-gray-500 hover:text-[#4728F5]"
+    );
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Task notes"
+        className="w-full max-w-lg bg-white rounded-md shadow-lg border border-gray-300"
+      >
+        <div className="flex items-start justify-between gap-3 px-4 pt-4">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-800 break-words">
+              {stripTags(task.text)}
+            </p>
+            <p className="text-xs text-gray-400">{formatDisplayDate(date)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded"
+            aria-label="Close"
+          >
+            <X size={14} className="text-gray-400 hover:text-[#4728F5]" />
+          </button>
+        </div>
+        <div className="flex gap-1 px-4 pt-3">
+          <button type="button" onClick={() => setTab("write")} className={tabClass("write")}>
+            Write
+          </button>
+          <button type="button" onClick={() => setTab("preview")} className={tabClass("preview")}>
+            Preview
+          </button>
+        </div>
+        <div className="px-4 py-3">
+          {tab === "write" ? (
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Add notes... (markdown supported)"
+              className="w-full h-48 p-2 text-sm border border-gray-300 rounded resize-none focus:outline-none focus:border-[#4728F5]"
+              autoFocus
+            />
+          ) : (
+            <div className="h-48 overflow-y-auto text-sm text-gray-700 break-words">
+              {notes.trim() ? (
+                <Markdown source={notes} />
+              ) : (
+                <p className="text-gray-400">No notes yet</p>
+              )}
+            </div>
+          )}
+          {notes.length > MAX_NOTES_LENGTH && (
+            <p className="text-xs text-red-500 mt-1">
+              Notes can be at most {MAX_NOTES_LENGTH} characters
+            </p>
+          )}
+        </div>
+        <div className="flex justify-end gap-2 px-4 pb-4">
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={notes.length > MAX_NOTES_LENGTH}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
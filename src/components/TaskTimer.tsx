@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Play, Square } from "lucide-react";
+import type { TimeEntry } from "@/lib/tasks";
+
+interface TaskTimerProps {
+  running?: TimeEntry; // The task's running entry, if its timer is on
+  disabled?: boolean;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+/**
+ * Formats elapsed seconds as "m:ss", or "h:mm:ss" from an hour up
+ */
+function formatElapsed(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Task row start/stop button
+ * Shows a play button on hover, and the elapsed time while the timer runs
+ */
+export function TaskTimer({ running, disabled, onStart, onStop }: TaskTimerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second while running
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  if (!running) {
+    return (
+      <button
+        type="button"
+        onClick={onStart}
+        disabled={disabled}
+        className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-gray-100 rounded"
+        aria-label="Start timer"
+      >
+        <Play size={14} className="text-gray-400 hover:text-[#4728F5]" />
+      </button>
+    );
+  }
+
+  const elapsed = Math.max(
+    0,
+    Math.floor((now - new Date(running.start).getTime()) / 1000)
+  );
+
+  return (
+    <button
+      type="button"
+      onClick={onStop}
+      disabled={disabled}
+      className="flex items-center gap-1 p-1 hover:bg-gray-100 rounded text-xs font-mono text-[#4728F5]"
+      aria-label="Stop timer"
+    >
+      <Square size={12} className="fill-current" />
+      {formatElapsed(elapsed)}
+    </button>
+  );
+}
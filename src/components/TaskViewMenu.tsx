@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ArrowUpDown, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  TASK_SORT_LABELS,
+  isCustomTaskView,
+  type TaskSortMode,
+  type TaskViewOptions,
+} from "@/lib/taskView";
+
+interface TaskViewMenuProps {
+  view: TaskViewOptions;
+  onChange: (view: TaskViewOptions) => void;
+}
+
+/**
+ * Card header button for sorting a card's tasks and hiding completed ones
+ */
+export function TaskViewMenu({ view, onChange }: TaskViewMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          "flex items-center text-gray-500 hover:text-[#4728F5]",
+          isCustomTaskView(view) && "text-[#4728F5]"
+        )}
+        aria-label="Sort and filter tasks"
+      >
+        <ArrowUpDown size={12} />
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-48 bg-white border border-gray-300 rounded-md shadow-lg z-50 py-1">
+          <div className="px-3 py-1 text-xs text-gray-400">Sort by</div>
+          {(Object.keys(TASK_SORT_LABELS) as TaskSortMode[]).map((sort) => (
+            <button
+              key={sort}
+              type="button"
+              onClick={() => onChange({ ...view, sort })}
+              className="w-full flex items-center justify-between px-3 py-2 text-xs text-gray-700 hover:bg-gray-50"
+            >
+              {TASK_SORT_LABELS[sort]}
+              {view.sort === sort && <Check size={12} className="text-[#4728F5]" />}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ ...view, hideCompleted: !view.hideCompleted })}
+            className="w-full flex items-center justify-between px-3 py-2 text-xs text-gray-700 hover:bg-gray-50 border-t border-gray-100"
+          >
+            Hide completed
+            {view.hideCompleted && <Check size={12} className="text-[#4728F5]" />}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
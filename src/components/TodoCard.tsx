@@ -7,16 +7,70 @@ import {
   useCreateTaskMutation,
   useUpdateTaskMutation,
   useDeleteTaskMutation,
+  useRestoreTaskMutation,
+  useBatchTasksMutation,
+  useReorderTasksMutation,
+  useMoveTaskMutation,
+  useRolloverTasksMutation,
+  useRunningTimersQuery,
+  useStartTimerMutation,
+  useStopTimerMutation,
 } from "@/hooks/useTasksQuery";
 import { CardStyle } from "@/app/page";
 import { toast } from "sonner";
-import { Trash2 } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronRight,
+  ListChecks,
+  NotebookPen,
+  Repeat,
+  Trash2,
+} from "lucide-react";
+import { TaskConflictError } from "@/lib/taskErrors";
+import type {
+  BatchOperation,
+  BatchOperationResult,
+  RolloverMode,
+} from "@/lib/taskStore";
+import { MAX_BATCH_OPERATIONS } from "@/lib/taskBatch";
+import { formatDisplayDate, formatTaskDate } from "@/lib/dates";
+import { RolloverMenu } from "@/components/RolloverMenu";
+import { RepeatMenu } from "@/components/RepeatMenu";
+import { getTaskTags, stripTags } from "@/lib/tags";
+import { PriorityMenu } from "@/components/PriorityMenu";
+import { TaskViewMenu } from "@/components/TaskViewMenu";
+import { TaskDetailDialog } from "@/components/TaskDetailDialog";
+import { TaskTimer } from "@/components/TaskTimer";
+import { parsePriorityShorthand, type Priority } from "@/lib/priority";
+import { formatDuration, parseDuration } from "@/lib/duration";
+import {
+  diffTextareaLines,
+  formatTextareaLines,
+  formatTextareaSummary,
+  parseTextareaLines,
+} from "@/lib/textareaSync";
+import { detectTaskLineStyle, type TaskLineStyle } from "@/lib/taskSyntax";
+import {
+  DEFAULT_TASK_VIEW,
+  applyTaskView,
+  isCustomTaskView,
+  type TaskViewOptions,
+} from "@/lib/taskView";
 
 interface Task {
   id: string;
   text: string;
   completed: boolean;
-  timeSpent?: string | number;
+  timeSpent?: number; // Minutes
+  position?: number;
+  version?: number;
+  rolled_over_from?: string;
+  rolled_over_to?: string;
+  recurrence_id?: string; // Set on occurrences of a repeating task
+  parent_id?: string; // Set on subtasks
+  tags?: string[];
+  priority?: number;
+  notes?: string;
 }
 
 interface TodoCardProps {
@@ -30,15 +84,45 @@ interface TodoCardProps {
   cardStyle?: CardStyle;
 }
 
+// Drag data type for task rows, so cards can tell task drags from anything else
+// (e.g. text dragged in from another app)
+const TASK_DRAG_TYPE = "application/x-diy-card-task";
+
+/**
+ * Picks the toast message for a failed write
+ * Conflicts get their own message since the card reloads the latest version
+ */
+function getWriteErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof TaskConflictError
+    ? "This task was changed somewhere else. Showing the latest version."
+    : fallback;
+}
+
+/**
+ * Splits a date's tasks into top-level tasks and subtasks
+ * Subtasks whose parent isn't on the card are shown as top-level tasks
+ */
+function splitSubtasks(allTasks: Task[]): { tasks: Task[]; subtasks: Task[] } {
+  const ids = new Set(allTasks.map((task) => task.id));
+  const isSubtask = (task: Task) => !!task.parent_id && ids.has(task.parent_id);
+  return {
+    tasks: allTasks.filter((task) => !isSubtask(task)),
+    subtasks: allTasks.filter(isSubtask),
+  };
+}
+
 // Diamond icon component
 const DiamondIcon = ({
   completed,
+  progress,
   onClick,
 }: {
   completed: boolean;
+  progress?: number; // Share of subtasks done (0-1), shown as a partial fill
   onClick?: () => void;
 }) => {
   const gradientId = `gradient-${Math.random().toString(36).substr(2, 9)}`;
+  const fillHeight = completed ? 0 : 16 * Math.min(Math.max(progress ?? 0, 0), 1);
 
   if (completed) {
     return (
@@ -87,6 +171,31 @@ const DiamondIcon = ({
         fill="none"
         xmlns="http://www.w3.org/2000/svg"
       >
+        {fillHeight > 0 && (
+          <>
+            <defs>
+              <clipPath id={`${gradientId}-clip`}>
+                <rect x="0" y={16 - fillHeight} width="16" height={fillHeight} />
+              </clipPath>
+              <linearGradient
+                id={gradientId}
+                x1="0"
+                y1="0"
+                x2="16"
+                y2="0"
+                gradientUnits="userSpaceOnUse"
+              >
+                <stop offset="0%" stopColor="#9333EA" />
+                <stop offset="100%" stopColor="#3B82F6" />
+              </linearGradient>
+            </defs>
+            <path
+              d="M8 0L16 8L8 16L0 8L8 0Z"
+              fill={`url(#${gradientId})`}
+              clipPath={`url(#${gradientId}-clip)`}
+            />
+          </>
+        )}
         <path
           d="M8 0L16 8L8 16L0 8L8 0Z"
           stroke="currentColor"
@@ -109,19 +218,46 @@ export const TodoCard = memo(function TodoCard({
   focused = false,
   cardStyle = "line",
 }: TodoCardProps) {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  const [tasks, setTasks] = useState<Task[]>(
+    () => splitSubtasks(initialTasks).tasks
+  );
+  const [subtasks, setSubtasks] = useState<Task[]>(
+    () => splitSubtasks(initialTasks).subtasks
+  );
+  // Sorting and hiding completed tasks (display only)
+  const [view, setView] = useState<TaskViewOptions>(DEFAULT_TASK_VIEW);
+  const isCustomView = isCustomTaskView(view);
+  // Tasks whose checklist is open
+  const [expandedTaskIds, setExpandedTaskIds] = useState<Set<string>>(
+    () => new Set()
+  );
+  // Task whose notes are open in the detail view
+  const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
   const [textareaValue, setTextareaValue] = useState<string>("");
   const [isTextareaFocused, setIsTextareaFocused] = useState(false);
+  // How the textarea marks completed tasks - kept in the style last typed
+  const [textareaStyle, setTextareaStyle] = useState<TaskLineStyle>("check");
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   const [editingText, setEditingText] = useState<string>("");
   const [timeInputValues, setTimeInputValues] = useState<
     Record<string, string>
   >({});
+  // Drag-and-drop reordering (line style only)
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
 
   // React Query mutations
   const createMutation = useCreateTaskMutation();
   const updateMutation = useUpdateTaskMutation();
   const deleteMutation = useDeleteTaskMutation();
+  const restoreMutation = useRestoreTaskMutation();
+  const batchMutation = useBatchTasksMutation();
+  const reorderMutation = useReorderTasksMutation();
+  const moveMutation = useMoveTaskMutation();
+  const rolloverMutation = useRolloverTasksMutation();
+  const startTimerMutation = useStartTimerMutation();
+  const stopTimerMutation = useStopTimerMutation();
+  const { data: runningTimers = [] } = useRunningTimersQuery();
 
   // Update tasks when initialTasks prop changes (when new data is fetched from API)
   useEffect(() => {
@@ -130,16 +266,16 @@ export const TodoCard = memo(function TodoCard({
       initialTasksCount: initialTasks.length,
       initialTasks,
     });
-    setTasks(initialTasks);
+    const split = splitSubtasks(initialTasks);
+    setTasks(split.tasks);
+    setSubtasks(split.subtasks);
+    // A row moved to another card is unmounted before its dragend fires
+    setDraggedTaskId(null);
     // Initialize time input values from tasks
     const timeValues: Record<string, string> = {};
     initialTasks.forEach((task) => {
-      if (
-        task.timeSpent !== undefined &&
-        task.timeSpent !== null &&
-        task.timeSpent !== ""
-      ) {
-        timeValues[task.id] = String(task.timeSpent);
+      if (task.timeSpent !== undefined) {
+        timeValues[task.id] = formatDuration(task.timeSpent);
       }
     });
     setTimeInputValues(timeValues);
@@ -149,16 +285,13 @@ export const TodoCard = memo(function TodoCard({
   // Update textarea value when tasks change or cardStyle changes (but not while user is typing)
   useEffect(() => {
     if (cardStyle === "textarea" && !isTextareaFocused) {
-      const text = tasks
-        .map((task) => (task.completed ? `✓ ${task.text}` : task.text))
-        .join("\n");
-      setTextareaValue(text);
+      setTextareaValue(formatTextareaLines(tasks, textareaStyle));
     }
-  }, [tasks, cardStyle, isTextareaFocused]);
+  }, [tasks, cardStyle, isTextareaFocused, textareaStyle]);
 
   // Calculate empty slots to always have 11 rows total (cap tasks at 11 if more exist)
   const totalRows = 10;
-  const displayedTasks = tasks.slice(0, totalRows);
+  const displayedTasks = applyTaskView(tasks, view).slice(0, totalRows);
   const calculatedEmptySlots =
     emptySlots !== undefined
       ? emptySlots
@@ -196,7 +329,12 @@ export const TodoCard = memo(function TodoCard({
                 t.id === taskId ? { ...t, completed: !newCompleted } : t
               )
             );
-            toast.error("Failed to update task. Please try again.");
+            toast.error(
+              getWriteErrorMessage(
+                error,
+                "Failed to update task. Please try again."
+              )
+            );
             console.error("Error toggling task:", error);
           },
         }
@@ -215,15 +353,13 @@ export const TodoCard = memo(function TodoCard({
       const tempId = `temp-${Date.now()}-${insertIndex}`;
       const optimisticTask: Task = {
         id: tempId,
-        text: trimmedText,
+        ...parsePriorityShorthand(trimmedText),
         completed: false,
-        timeSpent: "",
       };
 
       setTasks((prevTasks) => {
-        // Insert at the position where the empty slot was
-        // For empty slots, insertIndex should be >= prevTasks.length
-        // We'll insert at the end (prevTasks.length) to maintain order
+        // Empty slots come after the tasks, so this inserts at the end -
+        // the same place the server puts new tasks (after the last position)
         const insertPos = Math.min(insertIndex, prevTasks.length);
         const newTasks = [...prevTasks];
         newTasks.splice(insertPos, 0, optimisticTask);
@@ -232,7 +368,7 @@ export const TodoCard = memo(function TodoCard({
 
       // Save to spreadsheet via React Query mutation
       createMutation.mutate(
-        { text: trimmedText, date, completed: false, timeSpent: "" },
+        { text: trimmedText, date, completed: false },
         {
           onSuccess: (createdTask) => {
             // Replace the temporary task with the real one from the server
@@ -243,7 +379,9 @@ export const TodoCard = memo(function TodoCard({
                       id: createdTask.id,
                       text: createdTask.text,
                       completed: createdTask.completed,
-                      timeSpent: createdTask.timeSpent || "",
+                      timeSpent: createdTask.timeSpent,
+                      tags: createdTask.tags,
+                      priority: createdTask.priority,
                     }
                   : task
               )
@@ -293,10 +431,13 @@ export const TodoCard = memo(function TodoCard({
         return;
       }
 
-      // Optimistically update UI
+      // Optimistically update UI ("!1" sets the priority, like on the server)
+      const { text: newText, priority } = parsePriorityShorthand(trimmedText);
       setTasks((prevTasks) =>
         prevTasks.map((t) =>
-          t.id === taskId ? { ...t, text: trimmedText } : t
+          t.id === taskId
+            ? { ...t, text: newText, priority: priority ?? t.priority }
+            : t
         )
       );
       cancelEditing();
@@ -312,10 +453,17 @@ export const TodoCard = memo(function TodoCard({
             // Revert on error
             setTasks((prevTasks) =>
               prevTasks.map((t) =>
-                t.id === taskId ? { ...t, text: task.text } : t
+                t.id === taskId
+                  ? { ...t, text: task.text, priority: task.priority }
+                  : t
+              )
+            );
+            toast.error(
+              getWriteErrorMessage(
+                error,
+                "Failed to update task. Please try again."
               )
             );
-            toast.error("Failed to update task. Please try again.");
             console.error("Error updating task:", error);
           },
         }
@@ -328,9 +476,12 @@ export const TodoCard = memo(function TodoCard({
     async (taskId: string) => {
       const task = tasks.find((t) => t.id === taskId);
       if (!task) return;
+      // Subtasks go to the trash with their parent (the store trashes them)
+      const taskSubtasks = subtasks.filter((s) => s.parent_id === taskId);
 
       // Optimistically remove from UI
       setTasks((prevTasks) => prevTasks.filter((t) => t.id !== taskId));
+      setSubtasks((prev) => prev.filter((s) => s.parent_id !== taskId));
       // Remove time input value
       setTimeInputValues((prev) => {
         const newValues = { ...prev };
@@ -338,72 +489,347 @@ export const TodoCard = memo(function TodoCard({
         return newValues;
       });
 
-      // Actually delete the task from the database
+      const handleDeleted = () => {
+        toast.success("Task moved to trash", {
+          action: {
+            label: "Undo",
+            onClick: () =>
+              restoreMutation.mutate(taskId, {
+                onError: (error) => {
+                  toast.error("Failed to restore task. Please try again.");
+                  console.error("Error restoring task:", error);
+                },
+              }),
+          },
+        });
+      };
+
+      const handleDeleteError = (error: unknown) => {
+        // Revert on error
+        setTasks((prevTasks) => {
+          const newTasks = [...prevTasks];
+          const insertIndex = tasks.findIndex((t) => t.id === taskId);
+          newTasks.splice(insertIndex, 0, task);
+          return newTasks;
+        });
+        setSubtasks((prev) => [...prev, ...taskSubtasks]);
+        // Restore time input value
+        if (task.timeSpent !== undefined) {
+          setTimeInputValues((prev) => ({
+            ...prev,
+            [taskId]: formatDuration(task.timeSpent),
+          }));
+        }
+        toast.error(
+          getWriteErrorMessage(
+            error,
+            "Failed to delete task. Please try again."
+          )
+        );
+        console.error("Error deleting task:", error);
+      };
+
+      // Actually delete the task from the database (its subtasks go with it)
       deleteMutation.mutate(taskId, {
-        onSuccess: () => {
-          toast.success("Task deleted successfully");
+        onSuccess: handleDeleted,
+        onError: handleDeleteError,
+      });
+    },
+    [tasks, subtasks, deleteMutation, restoreMutation]
+  );
+
+  const handlePriorityChange = useCallback(
+    (taskId: string, priority: Priority | null) => {
+      const task = tasks.find((t) => t.id === taskId);
+      if (!task) return;
+
+      // Optimistically update UI
+      setTasks((prevTasks) =>
+        prevTasks.map((t) =>
+          t.id === taskId ? { ...t, priority: priority ?? undefined } : t
+        )
+      );
+
+      updateMutation.mutate(
+        { taskId, updates: { priority } },
+        {
+          onError: (error) => {
+            // Revert on error
+            setTasks((prevTasks) =>
+              prevTasks.map((t) =>
+                t.id === taskId ? { ...t, priority: task.priority } : t
+              )
+            );
+            toast.error(
+              getWriteErrorMessage(
+                error,
+                "Failed to update priority. Please try again."
+              )
+            );
+            console.error("Error updating priority:", error);
+          },
+        }
+      );
+    },
+    [tasks, updateMutation]
+  );
+
+  const handleSaveNotes = useCallback(
+    (taskId: string, notes: string) => {
+      const task = tasks.find((t) => t.id === taskId);
+      if (!task) return;
+
+      // Optimistically update UI
+      setTasks((prevTasks) =>
+        prevTasks.map((t) =>
+          t.id === taskId ? { ...t, notes: notes || undefined } : t
+        )
+      );
+
+      updateMutation.mutate(
+        { taskId, updates: { notes } },
+        {
+          onError: (error) => {
+            // Revert on error
+            setTasks((prevTasks) =>
+              prevTasks.map((t) =>
+                t.id === taskId ? { ...t, notes: task.notes } : t
+              )
+            );
+            toast.error(
+              getWriteErrorMessage(
+                error,
+                "Failed to save notes. Please try again."
+              )
+            );
+            console.error("Error saving notes:", error);
+          },
+        }
+      );
+    },
+    [tasks, updateMutation]
+  );
+
+  const closeDetail = useCallback(() => setDetailTaskId(null), []);
+  const detailTask = tasks.find((t) => t.id === detailTaskId);
+
+  const toggleExpanded = useCallback((taskId: string) => {
+    setExpandedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  }, []);
+
+  /**
+   * Checks or unchecks a subtask
+   * Checking the last open subtask completes the parent too (the store does
+   * that in the same write; the card shows it right away)
+   */
+  const toggleSubtask = useCallback(
+    (subtaskId: string) => {
+      const subtask = subtasks.find((s) => s.id === subtaskId);
+      if (!subtask || subtaskId.startsWith("temp-")) return;
+
+      const newCompleted = !subtask.completed;
+      const parent = tasks.find((t) => t.id === subtask.parent_id);
+      const completesParent =
+        newCompleted &&
+        !!parent &&
+        !parent.completed &&
+        subtasks.every(
+          (s) =>
+            s.parent_id !== subtask.parent_id || s.id === subtaskId || s.completed
+        );
+
+      const setCompleted = (completed: boolean) => {
+        setSubtasks((prev) =>
+          prev.map((s) => (s.id === subtaskId ? { ...s, completed } : s))
+        );
+        if (completesParent) {
+          setTasks((prevTasks) =>
+            prevTasks.map((t) =>
+              t.id === parent!.id ? { ...t, completed } : t
+            )
+          );
+        }
+      };
+      const revert = (error: unknown) => {
+        setCompleted(!newCompleted);
+        toast.error(
+          getWriteErrorMessage(error, "Failed to update task. Please try again.")
+        );
+        console.error("Error toggling subtask:", error);
+      };
+
+      // Optimistically update UI
+      setCompleted(newCompleted);
+
+      const operations: BatchOperation[] = [
+        { type: "update", id: subtaskId, updates: { completed: newCompleted } },
+      ];
+
+      batchMutation.mutate(operations, {
+        onSuccess: (results) => {
+          const failed = results.find((result) => !result.success);
+          if (failed && !failed.success) {
+            revert(
+              failed.conflict
+                ? new TaskConflictError(failed.task ?? null)
+                : new Error(failed.error)
+            );
+          } else if (completesParent) {
+            toast.success("All done - task marked as complete");
+          }
+        },
+        onError: revert,
+      });
+    },
+    [tasks, subtasks, batchMutation]
+  );
+
+  const addSubtask = useCallback(
+    (parentId: string, text: string) => {
+      const trimmedText = text.trim();
+      if (!trimmedText) return;
+
+      // Optimistically add the subtask to the UI
+      const tempId = `temp-${Date.now()}-${parentId}`;
+      setSubtasks((prev) => [
+        ...prev,
+        { id: tempId, text: trimmedText, completed: false, parent_id: parentId },
+      ]);
+
+      createMutation.mutate(
+        { text: trimmedText, date, completed: false, parentId },
+        {
+          onSuccess: (createdTask) => {
+            setSubtasks((prev) =>
+              prev.map((s) => (s.id === tempId ? createdTask : s))
+            );
+          },
+          onError: (error) => {
+            setSubtasks((prev) => prev.filter((s) => s.id !== tempId));
+            toast.error("Failed to add item. Please try again.");
+            console.error("❌ Failed to save subtask:", error);
+          },
+        }
+      );
+    },
+    [date, createMutation]
+  );
+
+  const handleDeleteSubtask = useCallback(
+    (subtaskId: string) => {
+      const subtask = subtasks.find((s) => s.id === subtaskId);
+      if (!subtask || subtaskId.startsWith("temp-")) return;
+
+      // Optimistically remove from UI
+      setSubtasks((prev) => prev.filter((s) => s.id !== subtaskId));
+
+      deleteMutation.mutate(subtaskId, {
+        onError: (error) => {
+          setSubtasks((prev) => [...prev, subtask]);
+          toast.error(
+            getWriteErrorMessage(error, "Failed to delete item. Please try again.")
+          );
+          console.error("Error deleting subtask:", error);
         },
+      });
+    },
+    [subtasks, deleteMutation]
+  );
+
+  const handleStartTimer = useCallback(
+    (taskId: string) => {
+      startTimerMutation.mutate(taskId, {
         onError: (error) => {
-          // Revert on error
-          setTasks((prevTasks) => {
-            const newTasks = [...prevTasks];
-            const insertIndex = tasks.findIndex((t) => t.id === taskId);
-            newTasks.splice(insertIndex, 0, task);
-            return newTasks;
-          });
-          // Restore time input value
-          if (task.timeSpent) {
-            setTimeInputValues((prev) => ({
-              ...prev,
-              [taskId]: String(task.timeSpent),
-            }));
-          }
-          toast.error("Failed to delete task. Please try again.");
-          console.error("Error deleting task:", error);
+          toast.error("Failed to start timer. Please try again.");
+          console.error("Error starting timer:", error);
+        },
+      });
+    },
+    [startTimerMutation]
+  );
+
+  const handleStopTimer = useCallback(
+    (taskId: string) => {
+      stopTimerMutation.mutate(taskId, {
+        onSuccess: ({ task }) => {
+          if (!task) return;
+          // Show the new total right away
+          setTasks((prevTasks) =>
+            prevTasks.map((t) => (t.id === taskId ? { ...t, ...task } : t))
+          );
+          setTimeInputValues((prev) => ({
+            ...prev,
+            [taskId]: formatDuration(task.timeSpent),
+          }));
+        },
+        onError: (error) => {
+          toast.error("Failed to stop timer. Please try again.");
+          console.error("Error stopping timer:", error);
         },
       });
     },
-    [tasks, deleteMutation]
+    [stopTimerMutation]
   );
 
   const handleTimeChange = useCallback(
     async (taskId: string, value: string) => {
-      // Update local state immediately
+      const task = tasks.find((t) => t.id === taskId);
+      if (!task) return;
+
+      // An empty box clears the time
+      const minutes = value.trim() === "" ? undefined : parseDuration(value);
+      if (minutes === null) {
+        // Not a duration - put the saved value back
+        setTimeInputValues((prev) => ({
+          ...prev,
+          [taskId]: formatDuration(task.timeSpent),
+        }));
+        toast.error("Enter a time like 90, 45m, 1h30m, 1:30 or 1.5h");
+        return;
+      }
+
+      // Show the value in the standard format
       setTimeInputValues((prev) => ({
         ...prev,
-        [taskId]: value,
+        [taskId]: formatDuration(minutes),
       }));
+      if (minutes === task.timeSpent) return;
 
       // Update task in state
       setTasks((prevTasks) =>
         prevTasks.map((t) =>
-          t.id === taskId ? { ...t, timeSpent: value || "" } : t
+          t.id === taskId ? { ...t, timeSpent: minutes } : t
         )
       );
 
       // Save to backend
-      const timeSpentValue = value.trim() === "" ? "" : value.trim();
       updateMutation.mutate(
-        { taskId, updates: { timeSpent: timeSpentValue } },
+        { taskId, updates: { timeSpent: minutes ?? "" } },
         {
           onSuccess: () => {
             // Silent success - no toast for time updates
           },
           onError: (error) => {
             // Revert on error
-            const task = tasks.find((t) => t.id === taskId);
-            if (task) {
-              setTimeInputValues((prev) => ({
-                ...prev,
-                [taskId]: String(task.timeSpent || ""),
-              }));
-              setTasks((prevTasks) =>
-                prevTasks.map((t) =>
-                  t.id === taskId
-                    ? { ...t, timeSpent: task.timeSpent || "" }
-                    : t
-                )
-              );
+            setTimeInputValues((prev) => ({
+              ...prev,
+              [taskId]: formatDuration(task.timeSpent),
+            }));
+            setTasks((prevTasks) =>
+              prevTasks.map((t) =>
+                t.id === taskId ? { ...t, timeSpent: task.timeSpent } : t
+              )
+            );
+            if (error instanceof TaskConflictError) {
+              toast.error(getWriteErrorMessage(error, ""));
             }
             console.error("Error updating time:", error);
           },
@@ -413,96 +839,359 @@ export const TodoCard = memo(function TodoCard({
     [tasks, updateMutation]
   );
 
+  // Move a task to a new slot and save the new order
+  const moveTask = useCallback(
+    (taskId: string, targetIndex: number) => {
+      const fromIndex = tasks.findIndex((t) => t.id === taskId);
+      if (fromIndex === -1) return;
+
+      // Removing the task first shifts later slots up by one
+      const insertIndex = targetIndex > fromIndex ? targetIndex - 1 : targetIndex;
+      if (insertIndex === fromIndex) return;
+
+      const previousTasks = tasks;
+      const newTasks = [...tasks];
+      const [movedTask] = newTasks.splice(fromIndex, 1);
+      newTasks.splice(insertIndex, 0, movedTask);
+
+      // Optimistically update UI
+      setTasks(newTasks);
+
+      // Tasks still being created don't have a server ID yet
+      const ids = newTasks
+        .map((t) => t.id)
+        .filter((id) => !id.startsWith("temp-"));
+      reorderMutation.mutate(
+        { date, ids },
+        {
+          onError: (error) => {
+            // Revert on error
+            setTasks(previousTasks);
+            toast.error("Failed to reorder tasks. Please try again.");
+            console.error("Error reordering tasks:", error);
+          },
+        }
+      );
+    },
+    [tasks, date, reorderMutation]
+  );
+
+  // Move a task here from another card, landing at the given slot
+  const moveTaskFromCard = useCallback(
+    (taskId: string, fromDate: string, targetIndex: number) => {
+      const targetIds = tasks
+        .map((t) => t.id)
+        .filter((id) => !id.startsWith("temp-"));
+      targetIds.splice(Math.min(targetIndex, targetIds.length), 0, taskId);
+
+      // Both cards update from the React Query caches, which the mutation
+      // changes optimistically and rolls back on error
+      moveMutation.mutate(
+        { taskId, fromDate, toDate: date, targetIds },
+        {
+          onSuccess: () => {
+            toast.success(`Task moved to ${formatDisplayDate(date)}`);
+          },
+          onError: (error) => {
+            toast.error(
+              getWriteErrorMessage(error, "Failed to move task. Please try again.")
+            );
+            console.error("Error moving task:", error);
+          },
+        }
+      );
+    },
+    [tasks, date, moveMutation]
+  );
+
+  /**
+   * Tracks where a dragged task would land
+   * Tasks can come from this card or another one, so the drag is recognized by
+   * its data type rather than local state
+   *
+   * @param index - The row under the pointer, or null for the card itself (drop at the end)
+   */
+  const handleDragOver = useCallback(
+    (e: React.DragEvent<HTMLDivElement>, index: number | null, isTask = false) => {
+      if (!e.dataTransfer.types.includes(TASK_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = "move";
+
+      // Drop above or below a task depending on which half the pointer is in;
+      // empty slots and the rest of the card all mean "at the end". A sorted or
+      // filtered card doesn't show the saved order, so drops always go at the end.
+      if (index !== null && isTask && !isCustomView) {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const isLowerHalf = e.clientY > rect.top + rect.height / 2;
+        setDropIndex(isLowerHalf ? index + 1 : index);
+      } else {
+        setDropIndex(displayedTasks.length);
+      }
+    },
+    [displayedTasks.length, isCustomView]
+  );
+
+  const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    // Ignore moves between elements inside the card
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDropIndex(null);
+    }
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      const data = e.dataTransfer.getData(TASK_DRAG_TYPE);
+      if (!data) return;
+      e.preventDefault();
+
+      const { id, date: fromDate } = JSON.parse(data) as {
+        id: string;
+        date: string;
+      };
+      const targetIndex = isCustomView
+        ? tasks.length
+        : dropIndex ?? displayedTasks.length;
+      if (fromDate === date) {
+        if (!isCustomView) {
+          moveTask(id, targetIndex);
+        }
+      } else {
+        moveTaskFromCard(id, fromDate, targetIndex);
+      }
+      setDraggedTaskId(null);
+      setDropIndex(null);
+    },
+    [
+      date,
+      dropIndex,
+      displayedTasks.length,
+      isCustomView,
+      tasks.length,
+      moveTask,
+      moveTaskFromCard,
+    ]
+  );
+
+  const handleDragEnd = useCallback(() => {
+    setDraggedTaskId(null);
+    setDropIndex(null);
+  }, []);
+
+  // Unfinished tasks on past cards can be rolled over to today
+  const today = formatTaskDate(new Date());
+  const rolloverCandidates =
+    date < today
+      ? tasks.filter(
+          (t) => !t.completed && !t.rolled_over_to && !t.id.startsWith("temp-")
+        )
+      : [];
+
+  /**
+   * Rolls tasks over to today, recording where they came from
+   *
+   * @param taskId - A single task to roll over, or null for every unfinished task on the card
+   */
+  const handleRollover = useCallback(
+    (taskId: string | null, mode: RolloverMode) => {
+      rolloverMutation.mutate(
+        taskId
+          ? { to: today, ids: [taskId], mode, record: true }
+          : { to: today, date, mode, record: true },
+        {
+          onSuccess: (results) => {
+            const rolledOver = results.filter((r) => r.success).length;
+            if (rolledOver < results.length) {
+              toast.error(
+                `Rolled over ${rolledOver} of ${results.length} tasks. Please try again.`
+              );
+              console.error(
+                "❌ Failed to roll over some tasks:",
+                results.filter((r) => !r.success)
+              );
+            } else {
+              toast.success(
+                rolledOver === 1
+                  ? "Task rolled over to today"
+                  : `${rolledOver} tasks rolled over to today`
+              );
+            }
+          },
+          onError: (error) => {
+            toast.error("Failed to roll over tasks. Please try again.");
+            console.error("Error rolling over tasks:", error);
+          },
+        }
+      );
+    },
+    [today, date, rolloverMutation]
+  );
+
+  /**
+   * Makes a task repeat, or changes the rule of the repeating task it belongs to
+   */
+  const handleRepeat = useCallback(
+    (task: Task, recurrence: string) => {
+      updateMutation.mutate(
+        { taskId: task.recurrence_id ?? task.id, updates: { recurrence } },
+        {
+          onSuccess: () => {
+            toast.success(task.recurrence_id ? "Repeat changed" : "Task repeats");
+          },
+          onError: (error) => {
+            toast.error(
+              getWriteErrorMessage(
+                error,
+                "Failed to update repeat. Please try again."
+              )
+            );
+            console.error("Error updating repeat:", error);
+          },
+        }
+      );
+    },
+    [updateMutation]
+  );
+
+  /**
+   * Stops a repeating task: this occurrence is saved as a plain task (no longer
+   * tied to the series), then the series is moved to the trash (taking its
+   * untouched occurrences with it)
+   */
+  const handleStopRepeat = useCallback(
+    async (task: Task) => {
+      const seriesId = task.recurrence_id;
+      if (!seriesId) return;
+
+      try {
+        const results = await batchMutation.mutateAsync([
+          { type: "update", id: task.id, updates: { recurrence_id: "" } },
+          { type: "delete", id: seriesId },
+        ]);
+        if (results.some((result) => !result.success)) {
+          console.error("❌ Failed to stop repeating:", results);
+          toast.error("Failed to stop repeating. Please try again.");
+          return;
+        }
+
+        toast.success("Stopped repeating", {
+          action: {
+            label: "Undo",
+            onClick: () =>
+              restoreMutation.mutate(seriesId, {
+                onError: (error) => {
+                  toast.error("Failed to restore task. Please try again.");
+                  console.error("Error restoring task:", error);
+                },
+              }),
+          },
+        });
+      } catch (error) {
+        toast.error("Failed to stop repeating. Please try again.");
+        console.error("Error stopping repeat:", error);
+      }
+    },
+    [batchMutation, restoreMutation]
+  );
+
   // Handle textarea changes for textarea style
   const handleTextareaChange = useCallback((value: string) => {
     setTextareaValue(value);
   }, []);
 
-  // Handle textarea blur - save tasks from textarea
+  // Handle textarea blur - diff the lines against the card's tasks and save
+  // the changes (including removed lines) in a single batch
   const handleTextareaBlur = useCallback(async () => {
     setIsTextareaFocused(false);
-    const lines = textareaValue.split("\n").filter((line) => line.trim());
-    const newTasks: Task[] = [];
-    const promises: Promise<void>[] = [];
-
-    // Process each line in the textarea
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) continue;
-
-      // Check if line starts with ✓ (completed task)
-      const isCompleted = trimmedLine.startsWith("✓");
-      const taskText = isCompleted
-        ? trimmedLine.substring(1).trim()
-        : trimmedLine;
-
-      if (!taskText) continue;
-
-      // Check if this task already exists
-      const existingTask = tasks.find((t) => t.text === taskText);
-      if (existingTask) {
-        // Update completion status if changed
-        if (existingTask.completed !== isCompleted) {
-          promises.push(
-            new Promise<void>((resolve) => {
-              updateMutation.mutate(
-                {
-                  taskId: existingTask.id,
-                  updates: { completed: isCompleted },
-                },
-                {
-                  onSuccess: () => {
-                    newTasks.push({ ...existingTask, completed: isCompleted });
-                    resolve();
-                  },
-                  onError: (error) => {
-                    console.error("❌ Failed to update task:", error);
-                    toast.error("Failed to update task completion");
-                    newTasks.push(existingTask); // Keep original
-                    resolve();
-                  },
-                }
-              );
-            })
-          );
-        } else {
-          newTasks.push(existingTask);
-        }
-      } else {
-        // Create new task
-        promises.push(
-          new Promise<void>((resolve) => {
-            createMutation.mutate(
-              { text: taskText, date, completed: isCompleted },
-              {
-                onSuccess: (createdTask) => {
-                  newTasks.push(createdTask);
-                  resolve();
-                },
-                onError: (error) => {
-                  console.error("❌ Failed to save task:", error);
-                  // Add as temporary task anyway
-                  newTasks.push({
-                    id: `temp-${Date.now()}-${Math.random()}`,
-                    text: taskText,
-                    completed: isCompleted,
-                    timeSpent: "",
-                  });
-                  resolve();
-                },
-              }
-            );
-          })
+    const lines = parseTextareaLines(textareaValue);
+    setTextareaStyle((style) => detectTaskLineStyle(lines, style));
+    const changes = diffTextareaLines(tasks, lines, date);
+    if (changes.operations.length === 0) return;
+
+    // Subtasks go to the trash with their parent (the store trashes them)
+    const removedSubtasks = subtasks.filter(
+      (s) => s.parent_id && changes.removedIds.includes(s.parent_id)
+    );
+
+    // Optimistically show the lines as tasks; new ones are temporary until saved
+    const newTasks: Task[] = lines.map((line, index) => {
+      const task = tasks.find((t) => t.id === changes.lines[index].taskId);
+      return task
+        ? {
+            ...task,
+            text: line.text,
+            completed: line.completed,
+            timeSpent: line.timeSpent,
+          }
+        : {
+            id: `temp-${Date.now()}-${index}`,
+            text: line.text,
+            completed: line.completed,
+            timeSpent: line.timeSpent,
+          };
+    });
+    setTasks(newTasks);
+    setSubtasks((prev) => prev.filter((s) => !removedSubtasks.includes(s)));
+
+    try {
+      // Large pastes go out in as many batches as the API accepts
+      const results: BatchOperationResult[] = [];
+      for (let i = 0; i < changes.operations.length; i += MAX_BATCH_OPERATIONS) {
+        results.push(
+          ...(await batchMutation.mutateAsync(
+            changes.operations.slice(i, i + MAX_BATCH_OPERATIONS)
+          ))
         );
       }
-    }
+      setTasks(
+        newTasks.flatMap((task, index) => {
+          const operation = changes.lines[index].operation;
+          const result = operation !== undefined ? results[operation] : undefined;
+          if (!result) return [task];
+          if (result.success) return [result.task];
+          // Failed edits fall back to the saved task; failed creates are dropped
+          const saved = tasks.find((t) => t.id === changes.lines[index].taskId);
+          return saved ? [saved] : [];
+        })
+      );
 
-    // Wait for all mutations to complete
-    await Promise.all(promises);
+      const failed = results.filter((result) => !result.success);
+      if (failed.length > 0) {
+        console.error("❌ Failed to save some tasks:", failed);
+        toast.error(
+          failed.some((result) => !result.success && result.conflict)
+            ? "Some tasks were changed somewhere else. Showing the latest version."
+            : `Failed to save ${failed.length} of ${results.length} changes`
+        );
+        return;
+      }
 
-    // Update tasks - only keep tasks that are in the textarea
-    setTasks(newTasks);
-  }, [textareaValue, tasks, date, updateMutation, createMutation]);
+      const { removedIds } = changes;
+      toast.success(`Saved: ${formatTextareaSummary(changes.summary)}`, {
+        action:
+          removedIds.length > 0
+            ? {
+                label: "Undo",
+                onClick: () =>
+                  removedIds.forEach((id) =>
+                    restoreMutation.mutate(id, {
+                      onError: (error) => {
+                        toast.error("Failed to restore task. Please try again.");
+                        console.error("Error restoring task:", error);
+                      },
+                    })
+                  ),
+              }
+            : undefined,
+      });
+    } catch (error) {
+      console.error("❌ Failed to save tasks:", error);
+      toast.error("Failed to save tasks. Please try again.");
+      // Put back the tasks as they were saved
+      setTasks(tasks);
+      setSubtasks((prev) => [...prev, ...removedSubtasks]);
+    }
+  }, [textareaValue, tasks, subtasks, date, batchMutation, restoreMutation]);
 
   // Create all items: existing tasks + empty slots (always 11 rows total)
   const allItems: (Task | { id: string; isEmpty: true })[] = [
@@ -524,13 +1213,30 @@ export const TodoCard = memo(function TodoCard({
         !focused && "border border-gray-300 scale-95",
         className
       )}
+      onDragOver={(e) => handleDragOver(e, null)}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
     >
       <CardContent className="p-5 py-4">
         {/* Header */}
         <div className="flex justify-between items-start mb-4">
           <span className="w-4 h-4 rounded-full bg-[#F2F1ED] shadow-inner border-2"></span>
-          <span className="text-xs text-gray-700">{date}</span>
-          <span className="text-xs text-gray-700">{day}</span>
+          <span className="text-xs text-gray-700">
+            {formatDisplayDate(date)}
+          </span>
+          <div className="flex items-center gap-3">
+            {cardStyle === "line" && (
+              <TaskViewMenu view={view} onChange={setView} />
+            )}
+            {rolloverCandidates.length > 0 && (
+              <RolloverMenu
+                count={rolloverCandidates.length}
+                disabled={rolloverMutation.isPending}
+                onRollover={(mode) => handleRollover(null, mode)}
+              />
+            )}
+            <span className="text-xs text-gray-700">{day}</span>
+          </div>
         </div>
 
         {/* Task List */}
@@ -539,12 +1245,41 @@ export const TodoCard = memo(function TodoCard({
             {allItems.map((item, index) => {
               const isTask = "isEmpty" in item === false;
               const task = isTask ? (item as Task) : null;
+              const taskSubtasks = task
+                ? subtasks.filter((s) => s.parent_id === task.id)
+                : [];
+              const doneSubtasks = taskSubtasks.filter((s) => s.completed).length;
+              const isExpanded = !!task && expandedTaskIds.has(task.id);
 
               return (
-                <div key={item.id}>
+                <div
+                  key={item.id}
+                  draggable={!!task && editingTaskId !== task.id}
+                  onDragStart={(e) => {
+                    if (!task) return;
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData(
+                      TASK_DRAG_TYPE,
+                      JSON.stringify({ id: task.id, date })
+                    );
+                    setDraggedTaskId(task.id);
+                  }}
+                  onDragOver={(e) => handleDragOver(e, index, isTask)}
+                  onDragEnd={handleDragEnd}
+                  className={cn(
+                    draggedTaskId === item.id && "opacity-40",
+                    // Drop indicator above the slot the task would land in
+                    dropIndex === index && "shadow-[inset_0_2px_0_#4728F5]"
+                  )}
+                >
                   <div className="flex items-center gap-3 py-2.5">
                     <DiamondIcon
                       completed={task?.completed ?? false}
+                      progress={
+                        taskSubtasks.length > 0
+                          ? doneSubtasks / taskSubtasks.length
+                          : undefined
+                      }
                       onClick={() => task && toggleTask(task.id)}
                     />
                     {isTask && task ? (
@@ -573,15 +1308,101 @@ export const TodoCard = memo(function TodoCard({
                               }
                               className={cn(
                                 "text-base font-mono text-gray-700 flex-1 cursor-text",
-                                task.completed && "line-through text-gray-400"
+                                task.completed && "line-through text-gray-400",
+                                task.rolled_over_to && "text-gray-400"
                               )}
                             >
-                              {task.text}
+                              {stripTags(task.text)}
+                              {getTaskTags(task).map((tag) => (
+                                <span
+                                  key={tag}
+                                  className="ml-1.5 inline-block rounded-full bg-[#F2F1ED] px-2 text-xs text-gray-600 no-underline align-middle"
+                                >
+                                  #{tag}
+                                </span>
+                              ))}
+                              {task.rolled_over_to ? (
+                                <span className="ml-2 text-xs text-gray-400">
+                                  → {formatDisplayDate(task.rolled_over_to)}
+                                </span>
+                              ) : task.rolled_over_from ? (
+                                <span className="ml-2 text-xs text-gray-400">
+                                  from {formatDisplayDate(task.rolled_over_from)}
+                                </span>
+                              ) : null}
+                              {task.recurrence_id && (
+                                <Repeat
+                                  size={12}
+                                  className="inline ml-2 text-gray-400"
+                                  aria-label="Repeating task"
+                                />
+                              )}
                             </span>
+                            {!task.id.startsWith("temp-") && (
+                              <button
+                                onClick={() => toggleExpanded(task.id)}
+                                className={cn(
+                                  "flex items-center gap-0.5 p-1 text-xs font-mono text-gray-400 hover:text-[#4728F5] hover:bg-gray-100 rounded",
+                                  taskSubtasks.length === 0 &&
+                                    !isExpanded &&
+                                    "opacity-0 group-hover:opacity-100 transition-opacity"
+                                )}
+                                aria-label={
+                                  isExpanded ? "Hide checklist" : "Show checklist"
+                                }
+                                aria-expanded={isExpanded}
+                              >
+                                {taskSubtasks.length > 0 ? (
+                                  <>
+                                    {isExpanded ? (
+                                      <ChevronDown size={12} />
+                                    ) : (
+                                      <ChevronRight size={12} />
+                                    )}
+                                    {doneSubtasks}/{taskSubtasks.length}
+                                  </>
+                                ) : (
+                                  <ListChecks size={14} />
+                                )}
+                              </button>
+                            )}
+                            {!task.id.startsWith("temp-") && (
+                              <button
+                                onClick={() => setDetailTaskId(task.id)}
+                                className={cn(
+                                  "p-1 hover:bg-gray-100 rounded",
+                                  !task.notes &&
+                                    "opacity-0 group-hover:opacity-100 transition-opacity"
+                                )}
+                                aria-label={task.notes ? "Show notes" : "Add notes"}
+                              >
+                                <NotebookPen
+                                  size={14}
+                                  className={cn(
+                                    "hover:text-[#4728F5]",
+                                    task.notes ? "text-[#4728F5]" : "text-gray-400"
+                                  )}
+                                />
+                              </button>
+                            )}
+                            {!task.id.startsWith("temp-") && (
+                              <TaskTimer
+                                running={runningTimers.find(
+                                  (entry) => entry.task_id === task.id
+                                )}
+                                disabled={
+                                  startTimerMutation.isPending ||
+                                  stopTimerMutation.isPending
+                                }
+                                onStart={() => handleStartTimer(task.id)}
+                                onStop={() => handleStopTimer(task.id)}
+                              />
+                            )}
                             <input
                               type="text"
                               value={
-                                timeInputValues[task.id] || task.timeSpent || ""
+                                timeInputValues[task.id] ??
+                                formatDuration(task.timeSpent)
                               }
                               onChange={(e) => {
                                 const value = e.target.value;
@@ -600,8 +1421,35 @@ export const TodoCard = memo(function TodoCard({
                               }}
                               placeholder="0"
                               className="w-16 text-sm font-mono text-gray-600 bg-transparent border-b border-gray-300 focus:border-[#4728F5] outline-none focus:outline-none text-center placeholder:text-gray-300"
-                              aria-label="Time spent (minutes)"
+                              aria-label="Time spent (e.g. 45m, 1h30m)"
                             />
+                            {rolloverCandidates.some((t) => t.id === task.id) && (
+                              <RolloverMenu
+                                disabled={rolloverMutation.isPending}
+                                onRollover={(mode) =>
+                                  handleRollover(task.id, mode)
+                                }
+                              />
+                            )}
+                            {!task.id.startsWith("temp-") && (
+                              <PriorityMenu
+                                priority={task.priority}
+                                onChange={(priority) =>
+                                  handlePriorityChange(task.id, priority)
+                                }
+                              />
+                            )}
+                            {!task.id.startsWith("temp-") && (
+                              <RepeatMenu
+                                date={date}
+                                repeating={!!task.recurrence_id}
+                                disabled={updateMutation.isPending}
+                                onRepeat={(recurrence) =>
+                                  handleRepeat(task, recurrence)
+                                }
+                                onStop={() => handleStopRepeat(task)}
+                              />
+                            )}
                             <button
                               onClick={() => handleDeleteTask(task.id)}
                               className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-gray-100 rounded"
@@ -638,6 +1486,55 @@ export const TodoCard = memo(function TodoCard({
                       />
                     )}
                   </div>
+                  {task && isExpanded && (
+                    <div className="pl-7 pb-2 space-y-1">
+                      {taskSubtasks.map((subtask) => (
+                        <div
+                          key={subtask.id}
+                          className="flex items-center gap-2 group/subtask"
+                        >
+                          <DiamondIcon
+                            completed={subtask.completed}
+                            onClick={() => toggleSubtask(subtask.id)}
+                          />
+                          <span
+                            className={cn(
+                              "text-sm font-mono text-gray-700 flex-1",
+                              subtask.completed && "line-through text-gray-400"
+                            )}
+                          >
+                            {subtask.text}
+                          </span>
+                          <button
+                            onClick={() => handleDeleteSubtask(subtask.id)}
+                            className="opacity-0 group-hover/subtask:opacity-100 transition-opacity p-1 hover:bg-gray-100 rounded"
+                            aria-label="Delete item"
+                          >
+                            <Trash2
+                              size={12}
+                              className="text-gray-400 hover:text-red-500"
+                            />
+                          </button>
+                        </div>
+                      ))}
+                      <input
+                        type="text"
+                        placeholder="Add item"
+                        className="w-full pl-6 text-sm font-mono text-gray-700 bg-transparent border-none outline-none focus:outline-none placeholder:text-gray-300"
+                        onKeyDown={(e) => {
+                          if (
+                            e.key === "Enter" &&
+                            e.currentTarget.value.trim()
+                          ) {
+                            addSubtask(task.id, e.currentTarget.value);
+                            e.currentTarget.value = "";
+                          } else if (e.key === "Escape") {
+                            toggleExpanded(task.id);
+                          }
+                        }}
+                      />
+                    </div>
+                  )}
                   {index < allItems.length - 1 && (
                     <div className="h-px bg-gray-300" />
                   )}
@@ -652,13 +1549,21 @@ export const TodoCard = memo(function TodoCard({
               onChange={(e) => handleTextareaChange(e.target.value)}
               onFocus={() => setIsTextareaFocused(true)}
               onBlur={handleTextareaBlur}
-              placeholder="Type your tasks here, one per line. Use '✓' prefix for completed tasks."
+              placeholder="Type your tasks here, one per line. Start completed tasks with '✓', '- [x]' or 'x', and add time spent like '~30m'."
               className="w-full flex-1 text-base font-mono text-gray-700 bg-transparent border-none outline-none focus:outline-none resize-none placeholder:text-gray-300"
               style={{ fontFamily: "inherit", minHeight: "400px" }}
             />
           </div>
         )}
       </CardContent>
+      {detailTask && (
+        <TaskDetailDialog
+          task={detailTask}
+          date={date}
+          onSave={(notes) => handleSaveNotes(detailTask.id, notes)}
+          onClose={closeDetail}
+        />
+      )}
     </Card>
   );
 });
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  useTrashQuery,
+  useRestoreTaskMutation,
+  usePurgeTrashMutation,
+} from "@/hooks/useTasksQuery";
+import { formatDisplayDate } from "@/lib/dates";
+import { toast } from "sonner";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+/**
+ * Toolbar button that opens a small list of trashed tasks with restore buttons
+ */
+export function TrashPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const { data: trashedTasks = [], isLoading } = useTrashQuery(isOpen);
+  const restoreMutation = useRestoreTaskMutation();
+  const { mutate: purgeTrash } = usePurgeTrashMutation();
+  const hasPurgedRef = useRef(false);
+
+  // Clear out expired tasks the first time the trash is opened
+  useEffect(() => {
+    if (!isOpen || hasPurgedRef.current) return;
+    hasPurgedRef.current = true;
+    purgeTrash(undefined, {
+      onError: (error) => console.error("Error purging trash:", error),
+    });
+  }, [isOpen, purgeTrash]);
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleRestore = (taskId: string) => {
+    restoreMutation.mutate(taskId, {
+      onSuccess: (task) => {
+        toast.success(`Task restored to ${formatDisplayDate(task.date || "")}`);
+      },
+      onError: (error) => {
+        toast.error("Failed to restore task. Please try again.");
+        console.error("Error restoring task:", error);
+      },
+    });
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <Button
+        variant="outline"
+        className="text-lg gap-2"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <Trash2 size={20} />
+        Trash
+      </Button>
+      {isOpen && (
+        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-80 max-h-80 overflow-y-auto bg-white border border-gray-300 rounded-md shadow-lg z-50">
+          <div className="py-1">
+            {isLoading ? (
+              <p className="px-4 py-2 text-sm text-gray-400">Loading...</p>
+            ) : trashedTasks.length === 0 ? (
+              <p className="px-4 py-2 text-sm text-gray-400">Trash is empty</p>
+            ) : (
+              trashedTasks.map((task) => (
+                <div
+                  key={task.id}
+                  className="px-4 py-2 flex items-center justify-between gap-3 hover:bg-gray-50"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-700 truncate">
+                      {task.text}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {formatDisplayDate(task.date || "")}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(task.id)}
+                    disabled={restoreMutation.isPending}
+                    className="shrink-0 p-1 hover:bg-gray-100 rounded disabled:opacity-50"
+                    aria-label="Restore task"
+                  >
+                    <RotateCcw size={14} className="text-gray-500" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
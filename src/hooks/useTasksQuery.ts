@@ -1,6 +1,31 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { getTasksForDate, updateTask, deleteTask, createTask } from "@/lib/tasks";
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/react-query";
+import {
+  getTasksForDate,
+  getTasksForDateRange,
+  updateTask,
+  deleteTask,
+  createTask,
+  getTrashedTasks,
+  restoreTask,
+  purgeExpiredTrash,
+  applyTaskBatch,
+  importTasks,
+  reorderTasks,
+  rolloverTasks,
+  getRunningTimers,
+  startTaskTimer,
+  stopTaskTimer,
+  getTimeReport,
+} from "@/lib/tasks";
 import { rateLimiter } from "@/lib/rateLimiter";
+import { TaskConflictError } from "@/lib/taskErrors";
+import type { BatchOperation, RolloverRequest } from "@/lib/taskStore";
+import type { ImportRequest } from "@/lib/taskImport";
 
 interface Task {
   id: string;
@@ -8,13 +33,58 @@ interface Task {
   completed: boolean;
   date?: string;
   created_at?: string;
-  timeSpent?: string | number;
+  timeSpent?: number;
+  position?: number;
+  version?: number;
+  recurrence?: string;
+  recurrence_id?: string;
+  parent_id?: string;
+}
+
+// Task writes share a mutation scope so they run one at a time, and each
+// write sends the version produced by the previous one
+const TASK_WRITE_SCOPE = { id: "task-writes" };
+
+/**
+ * Finds a task's latest known version in the per-date caches
+ */
+function getCachedTaskVersion(
+  queryClient: QueryClient,
+  taskId: string
+): number | undefined {
+  for (const [, tasks] of queryClient.getQueriesData<Task[]>({
+    queryKey: ["tasks"],
+  })) {
+    const task = Array.isArray(tasks)
+      ? tasks.find((t) => t.id === taskId)
+      : undefined;
+    if (task) {
+      return task.version;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Writes an updated task into whichever per-date cache holds it
+ */
+function setCachedTask(queryClient: QueryClient, task: Task) {
+  queryClient.setQueriesData<Task[]>({ queryKey: ["tasks"] }, (tasks) =>
+    Array.isArray(tasks)
+      ? tasks.map((t) => (t.id === task.id ? { ...t, ...task } : t))
+      : tasks
+  );
 }
 
 /**
  * React Query hook for fetching tasks for a specific date
+ *
+ * @param options.enabled - Set to false to hold the request (e.g. while a range query seeds the cache)
  */
-export function useTasksQuery(date: string) {
+export function useTasksQuery(
+  date: string,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
   return useQuery({
     queryKey: ["tasks", date],
     queryFn: async () => {
@@ -22,8 +92,34 @@ export function useTasksQuery(date: string) {
       await rateLimiter.waitForRateLimit();
       return getTasksForDate(date);
     },
-    enabled: !!date,
+    enabled: !!date && enabled,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * React Query hook for loading a window of dates in one request
+ * Seeds the per-date ["tasks", date] cache so each card's useTasksQuery
+ * finds its data without making its own request
+ */
+export function useTasksRangeQuery(from: string, to: string) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ["tasks-range", from, to],
+    queryFn: async () => {
+      await rateLimiter.waitForRateLimit();
+      const tasksByDate = await getTasksForDateRange(from, to);
+
+      Object.entries(tasksByDate).forEach(([date, tasks]) => {
+        queryClient.setQueryData(["tasks", date], tasks);
+      });
+
+      return tasksByDate;
+    },
+    enabled: !!from && !!to,
     staleTime: 1000 * 60 * 5, // 5 minutes
+    retry: false, // Cards fall back to per-date requests on failure
   });
 }
 
@@ -39,12 +135,14 @@ export function useCreateTaskMutation() {
       date,
       completed,
       timeSpent,
+      parentId,
     }: {
       text: string;
       date: string;
       completed?: boolean;
       timeSpent?: string | number;
-    }) => createTask(text, date, completed ?? false, timeSpent),
+      parentId?: string; // Creates a subtask of this task
+    }) => createTask(text, date, completed ?? false, timeSpent, parentId),
     onSuccess: (task, variables) => {
       // Invalidate and refetch tasks for the date
       queryClient.invalidateQueries({ queryKey: ["tasks", variables.date] });
@@ -59,19 +157,41 @@ export function useUpdateTaskMutation() {
   const queryClient = useQueryClient();
 
   return useMutation({
+    scope: TASK_WRITE_SCOPE,
     mutationFn: ({
       taskId,
       updates,
     }: {
       taskId: string;
-      updates: { text?: string; completed?: boolean; date?: string; timeSpent?: string | number };
-    }) => updateTask(taskId, updates),
-    onSuccess: (task) => {
-      // Invalidate queries for both old and new dates
-      if (task.date) {
+      updates: {
+        text?: string;
+        completed?: boolean;
+        date?: string;
+        timeSpent?: string | number;
+        recurrence?: string;
+        priority?: number | null;
+        notes?: string;
+      };
+    }) =>
+      // Send the version we last saw so the server rejects stale writes
+      updateTask(taskId, updates, getCachedTaskVersion(queryClient, taskId)),
+    onSuccess: (task, { updates }) => {
+      // Record the new version right away so queued writes don't conflict with this one
+      setCachedTask(queryClient, task);
+
+      // A repeating task's occurrences can be on any date
+      if (task.recurrence || updates.recurrence !== undefined) {
+        queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      } else if (task.date) {
         queryClient.invalidateQueries({ queryKey: ["tasks", task.date] });
       }
     },
+    onError: (error) => {
+      // Someone else changed the task - load the latest version
+      if (error instanceof TaskConflictError) {
+        queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      }
+    },
   });
 }
 
@@ -82,11 +202,334 @@ export function useDeleteTaskMutation() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (taskId: string) => deleteTask(taskId),
-    onSuccess: () => {
+    scope: TASK_WRITE_SCOPE,
+    mutationFn: (taskId: string) =>
+      deleteTask(taskId, getCachedTaskVersion(queryClient, taskId)),
+    onSettled: () => {
       // Invalidate all task queries since we don't know which date
+      // (on a conflict this also loads the latest version)
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+    },
+  });
+}
+
+/**
+ * React Query hook for the tasks in the trash
+ *
+ * @param enabled - Only fetch while the trash view is open
+ */
+export function useTrashQuery(enabled: boolean) {
+  return useQuery({
+    queryKey: ["trash"],
+    queryFn: getTrashedTasks,
+    enabled,
+    staleTime: 0, // Always reload when the trash view opens
+  });
+}
+
+/**
+ * React Query mutation for permanently removing expired tasks from the trash
+ * The trash list itself never deletes anything, so this runs separately
+ */
+export function usePurgeTrashMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    scope: TASK_WRITE_SCOPE,
+    mutationFn: () => purgeExpiredTrash(),
+    onSuccess: (purged) => {
+      if (purged > 0) {
+        queryClient.invalidateQueries({ queryKey: ["trash"] });
+      }
+    },
+  });
+}
+
+/**
+ * React Query mutation for restoring a task from the trash
+ */
+export function useRestoreTaskMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    scope: TASK_WRITE_SCOPE,
+    mutationFn: (taskId: string) => restoreTask(taskId),
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      if (task.date) {
+        queryClient.invalidateQueries({ queryKey: ["tasks", task.date] });
+      }
+    },
+  });
+}
+
+/**
+ * React Query mutation for applying several task changes in one request
+ * Resolves with a result per operation; check each one for failures
+ */
+export function useBatchTasksMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    scope: TASK_WRITE_SCOPE,
+    mutationFn: (operations: BatchOperation[]) =>
+      applyTaskBatch(
+        // Send the versions we last saw so the server rejects stale writes
+        operations.map((operation) =>
+          operation.type !== "create" && operation.expectedVersion === undefined
+            ? {
+                ...operation,
+                expectedVersion: getCachedTaskVersion(queryClient, operation.id),
+              }
+            : operation
+        )
+      ),
+    onSuccess: (results) => {
+      // Record new versions right away so queued writes don't conflict with these
+      results.forEach((result) => {
+        if (result.success) {
+          setCachedTask(queryClient, result.task);
+        }
+      });
+    },
+    onSettled: () => {
+      // A batch can touch several dates (and the trash), so reload everything
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation for importing tasks from a file
+ * A dry run only previews the rows, so it leaves the cache alone
+ */
+export function useImportTasksMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    scope: TASK_WRITE_SCOPE,
+    mutationFn: (request: ImportRequest) => importTasks(request),
+    onSettled: (_rows, _error, request) => {
+      if (!request.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      }
+    },
+  });
+}
+
+/**
+ * React Query mutation for reordering the tasks of a date
+ * The cached list is reordered right away and rolled back if the save fails
+ */
+export function useReorderTasksMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    scope: TASK_WRITE_SCOPE,
+    mutationFn: ({ ids }: { date: string; ids: string[] }) =>
+      reorderTasks(ids),
+    onMutate: async ({ date, ids }) => {
+      await queryClient.cancelQueries({ queryKey: ["tasks", date] });
+      const previousTasks = queryClient.getQueryData<Task[]>(["tasks", date]);
+
+      if (previousTasks) {
+        const order = new Map(ids.map((id, index) => [id, index]));
+        queryClient.setQueryData<Task[]>(
+          ["tasks", date],
+          [...previousTasks].sort(
+            (a, b) =>
+              (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity)
+          )
+        );
+      }
+
+      return { previousTasks };
+    },
+    onSuccess: (tasks) => {
+      // Record new versions right away so queued writes don't conflict with these
+      tasks.forEach((task) => setCachedTask(queryClient, task));
+    },
+    onError: (error, { date }, context) => {
+      if (context?.previousTasks) {
+        queryClient.setQueryData(["tasks", date], context.previousTasks);
+      }
+    },
+  });
+}
+
+/**
+ * React Query mutation for moving a task to another date
+ *
+ * The task is moved between the two per-date caches right away and both are
+ * rolled back if the save fails. The move and the new order of the target
+ * date are written in one batch.
+ */
+export function useMoveTaskMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    scope: TASK_WRITE_SCOPE,
+    mutationFn: async ({
+      taskId,
+      toDate,
+      targetIds,
+    }: {
+      taskId: string;
+      fromDate: string;
+      toDate: string;
+      targetIds: string[]; // The target date's task IDs in their new order, including the moved task
+    }) => {
+      const results = await applyTaskBatch([
+        ...targetIds.map((id, position) =>
+          id === taskId
+            ? {
+                type: "update" as const,
+                id,
+                updates: { date: toDate, position },
+                // Send the version we last saw so the server rejects stale writes
+                expectedVersion: getCachedTaskVersion(queryClient, id),
+              }
+            : { type: "update" as const, id, updates: { position } }
+        ),
+      ]);
+
+      const moveResult = results[targetIds.indexOf(taskId)];
+      if (!moveResult?.success) {
+        throw moveResult?.conflict
+          ? new TaskConflictError(moveResult.task ?? null)
+          : new Error(moveResult?.error || "Failed to move task");
+      }
+      return results.flatMap((result) => (result.success ? [result.task] : []));
+    },
+    onMutate: async ({ taskId, fromDate, toDate, targetIds }) => {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: ["tasks", fromDate] }),
+        queryClient.cancelQueries({ queryKey: ["tasks", toDate] }),
+      ]);
+      const previousSource = queryClient.getQueryData<Task[]>(["tasks", fromDate]);
+      const previousTarget = queryClient.getQueryData<Task[]>(["tasks", toDate]);
+      const movedTask = previousSource?.find((t) => t.id === taskId);
+
+      if (movedTask) {
+        const order = new Map(targetIds.map((id, index) => [id, index]));
+        const moved = previousSource!.filter(
+          (t) => t.id === taskId || t.parent_id === taskId
+        );
+        queryClient.setQueryData<Task[]>(
+          ["tasks", fromDate],
+          previousSource!.filter((t) => !moved.includes(t))
+        );
+        queryClient.setQueryData<Task[]>(
+          ["tasks", toDate],
+          [
+            ...(previousTarget ?? []),
+            ...moved.map((t) => ({ ...t, date: toDate })),
+          ].sort(
+            (a, b) =>
+              (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity)
+          )
+        );
+      }
+
+      return { previousSource, previousTarget };
+    },
+    onSuccess: (tasks) => {
+      // Record new versions right away so queued writes don't conflict with these
+      tasks.forEach((task) => setCachedTask(queryClient, task));
+    },
+    onError: (error, { fromDate, toDate }, context) => {
+      if (context?.previousSource) {
+        queryClient.setQueryData(["tasks", fromDate], context.previousSource);
+      }
+      if (context?.previousTarget) {
+        queryClient.setQueryData(["tasks", toDate], context.previousTarget);
+      }
+    },
+    onSettled: (data, error, { fromDate, toDate }) => {
+      // On a conflict this also loads the latest version
+      queryClient.invalidateQueries({ queryKey: ["tasks", fromDate] });
+      queryClient.invalidateQueries({ queryKey: ["tasks", toDate] });
+    },
+  });
+}
+
+/**
+ * React Query mutation for rolling unfinished tasks over to a new date
+ * Resolves with a result per task; check each one for failures
+ */
+export function useRolloverTasksMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    scope: TASK_WRITE_SCOPE,
+    mutationFn: (request: RolloverRequest) => rolloverTasks(request),
+    onSettled: () => {
+      // Rollovers touch the source dates and the target date
       queryClient.invalidateQueries({ queryKey: ["tasks"] });
     },
   });
 }
 
+/**
+ * React Query hook for the timers that are currently running
+ * Shared by every card, so all rows see the same timers
+ */
+export function useRunningTimersQuery() {
+  return useQuery({
+    queryKey: ["timers"],
+    queryFn: getRunningTimers,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * React Query mutation for starting a task's timer
+ */
+export function useStartTimerMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (taskId: string) => startTaskTimer(taskId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["timers"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation for stopping a task's timer
+ * Stopping writes the task's new timeSpent, so it queues with the other task writes
+ */
+export function useStopTimerMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    scope: TASK_WRITE_SCOPE,
+    mutationFn: (taskId: string) => stopTaskTimer(taskId),
+    onSuccess: ({ task }) => {
+      if (task) {
+        setCachedTask(queryClient, task);
+        if (task.date) {
+          queryClient.invalidateQueries({ queryKey: ["tasks", task.date] });
+        }
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["timers"] });
+    },
+  });
+}
+
+/**
+ * React Query hook for the time report over a date range
+ */
+export function useTimeReportQuery(from: string, to: string) {
+  return useQuery({
+    queryKey: ["time-report", from, to],
+    queryFn: () => getTimeReport(from, to),
+    enabled: !!from && !!to,
+    staleTime: 0, // Always reload when the dashboard opens
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Date helpers for task dates
+ * Task dates are stored as ISO "YYYY-MM-DD" strings (e.g. "2024-12-25").
+ * The legacy "M/D/YYYY" format (e.g. "12/25/2024") is still accepted on input.
+ */
+
+/**
+ * Formats a Date as a task date string ("YYYY-MM-DD", local time)
+ */
+export function formatTaskDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses a task date string ("YYYY-MM-DD", or legacy "M/D/YYYY" with or without leading zeros)
+ *
+ * @returns The local Date at midnight, or null if the string isn't a valid date
+ */
+export function parseTaskDate(value: string): Date | null {
+  const trimmed = value.trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+  const legacy = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(trimmed);
+
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (legacy) {
+    [month, day, year] = [Number(legacy[1]), Number(legacy[2]), Number(legacy[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+
+  // Reject overflowed dates like 2/31/2024
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Converts a date string in any accepted format to the stored ISO format
+ * so "01/05/2025", "1/5/2025" and "2025-01-05" all become "2025-01-05"
+ *
+ * @returns The ISO date, or null if the string isn't a valid date
+ */
+export function normalizeTaskDate(value: string): string | null {
+  const date = parseTaskDate(value);
+  return date ? formatTaskDate(date) : null;
+}
+
+/**
+ * Formats a task date for display ("M/D/YYYY")
+ * Falls back to the raw value if it can't be parsed
+ */
+export function formatDisplayDate(value: string): string {
+  const date = parseTaskDate(value);
+  return date
+    ? `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`
+    : value;
+}
+
+/**
+ * Returns every task date string from `from` to `to` (inclusive)
+ */
+export function eachTaskDateInRange(from: Date, to: Date): string[] {
+  const dates: string[] = [];
+  const current = new Date(from);
+  while (current <= to) {
+    dates.push(formatTaskDate(current));
+    current.setDate(current.getDate() + 1);
+  }
+  return dates;
+}
@@ -0,0 +1,87 @@
+/**
+ * Durations for a task's time spent, stored as whole minutes
+ *
+ * Accepted input: "90" or "90m" (minutes), "1h", "1.5h", "1h30m" / "1h 30m", and "1:30" (hours:minutes).
+ * Displayed as "45m", "2h" or "1h 30m".
+ */
+
+const MINUTES = /^(\d+(?:\.\d+)?)$/;
+const CLOCK = /^(\d+):([0-5]\d)$/;
+const UNITS =
+  /^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+(?:\.\d+)?)\s*m(?:ins?|inutes?)?)?$/;
+
+// Longest duration accepted (a year of minutes), so typos like "90000h" are caught
+export const MAX_DURATION_MINUTES = 365 * 24 * 60;
+
+/**
+ * Parses a duration into whole minutes
+ *
+ * @returns The minutes, or null if the value isn't a duration
+ */
+export function parseDuration(value: string | number): number | null {
+  let minutes: number | null = null;
+
+  if (typeof value === "number") {
+    minutes = Number.isFinite(value) && value >= 0 ? value : null;
+  } else {
+    const text = value.trim().toLowerCase();
+    const plain = MINUTES.exec(text);
+    const clock = CLOCK.exec(text);
+    const units = UNITS.exec(text);
+
+    if (plain) {
+      minutes = Number(plain[1]);
+    } else if (clock) {
+      minutes = Number(clock[1]) * 60 + Number(clock[2]);
+    } else if (units && (units[1] || units[2])) {
+      minutes = Number(units[1] || 0) * 60 + Number(units[2] || 0);
+    }
+  }
+
+  if (minutes === null) {
+    return null;
+  }
+
+  const rounded = Math.round(minutes);
+  return rounded <= MAX_DURATION_MINUTES ? rounded : null;
+}
+
+/**
+ * Whether a timeSpent value is valid (a duration, or "" / null to clear it)
+ */
+export function isValidTimeSpent(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    ((typeof value === "string" || typeof value === "number") &&
+      parseDuration(value) !== null)
+  );
+}
+
+/**
+ * Converts a timeSpent value to minutes for storage
+ * "" and null clear it; values that aren't durations (e.g. legacy free text) are dropped
+ */
+export function toTimeSpentMinutes(value: unknown): number | undefined {
+  if (value === "" || (typeof value !== "string" && typeof value !== "number")) {
+    return undefined;
+  }
+  return parseDuration(value) ?? undefined;
+}
+
+/**
+ * Formats minutes for display ("45m", "2h", "1h 30m"); empty when there's no time
+ */
+export function formatDuration(minutes: number | undefined): string {
+  if (minutes === undefined) {
+    return "";
+  }
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest}m`;
+  }
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
@@ -0,0 +1,31 @@
+import type { Task } from "@/lib/tasks";
+
+/**
+ * Builds the ETag for a task from its version (e.g. "v3")
+ */
+export function getTaskETag(task: Task): string {
+  return `"v${task.version ?? 0}"`;
+}
+
+/**
+ * Parses an If-Match header into the task versions it accepts
+ * The header can list several tags ("v3", "v4"); the write goes ahead if the task is at any of them.
+ *
+ * @returns undefined when there's no precondition (no header, or "*" in the list),
+ *          otherwise the accepted versions (tags that aren't ours are left out, so they never match)
+ */
+export function parseIfMatch(header: string | null): number[] | undefined {
+  const tags = (header ?? "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  if (tags.length === 0 || tags.includes("*")) {
+    return undefined;
+  }
+
+  // Weak tags (W/"v3") compare the same way
+  return tags.flatMap((tag) => {
+    const match = /^(?:W\/)?"v(\d+)"$/.exec(tag);
+    return match ? [Number(match[1])] : [];
+  });
+}
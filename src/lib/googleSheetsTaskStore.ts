@@ -0,0 +1,854 @@
+import type { sheets_v4 } from "googleapis";
+import type { Task } from "@/lib/tasks";
+import { getGoogleSheetsClient } from "@/lib/googleSheets";
+import { SheetRowCache } from "@/lib/sheetRowCache";
+import { normalizeTaskDate, parseTaskDate } from "@/lib/dates";
+import {
+  TASK_COLUMNS,
+  columnLetter,
+  parseHeaderRow,
+  rowToTask,
+  taskToColumnValues,
+  taskToRow,
+  type SheetLayout,
+  type TaskColumn,
+} from "@/lib/sheetColumns";
+import {
+  applyBatchOperation,
+  assertExpectedVersion,
+  buildNewTask,
+  expandRecurringTasks,
+  findUnsavedOccurrence,
+  getMigratedTaskDate,
+  getNextTaskPosition,
+  getSubtaskChanges,
+  getUpdateResult,
+  isRecurringTask,
+  isTaskDeleted,
+  isTaskDeletedBefore,
+  isTaskInDateRange,
+  isTaskOnDate,
+  setTaskDeleted,
+  sortTasksByPosition,
+  type BatchOperation,
+  type BatchOperationResult,
+  type NewTaskInput,
+  type TaskStore,
+  type TaskUpdates,
+  type WriteOptions,
+} from "@/lib/taskStore";
+
+interface GoogleSheetsTaskStoreConfig {
+  spreadsheetId?: string;
+  sheetName: string;
+  cacheTtlMs?: number; // How long cached rows are served before re-reading the sheet
+}
+
+interface SheetsConnection {
+  sheets: sheets_v4.Sheets;
+  spreadsheetId: string;
+}
+
+interface SheetProperties {
+  sheetId: number;
+  rowCount: number;
+}
+
+// Rows fetched per range when reading the sheet
+const READ_CHUNK_SIZE = 1000;
+// Ranges requested per batchGet call (so one call covers 10,000 rows)
+const CHUNKS_PER_REQUEST = 10;
+
+/**
+ * Task store backed by a Google Sheets spreadsheet
+ */
+export class GoogleSheetsTaskStore implements TaskStore {
+  private spreadsheetId?: string;
+  private sheetName: string;
+  private cache: SheetRowCache;
+  // Column layout from the header row, refreshed whenever the rows are re-read
+  private layout: SheetLayout | null = null;
+  // Known columns the header row doesn't have yet; they're added before the next write
+  private missingHeaders: TaskColumn[] = [];
+
+  constructor(config: GoogleSheetsTaskStoreConfig) {
+    this.spreadsheetId = config.spreadsheetId;
+    this.sheetName = config.sheetName;
+    this.cache = new SheetRowCache(config.cacheTtlMs ?? 30000); // Default: 30 seconds
+  }
+
+  /**
+   * Connects to Google Sheets and checks the spreadsheet is configured
+   */
+  private async connect(): Promise<SheetsConnection> {
+    if (!this.spreadsheetId) {
+      throw new Error("Spreadsheet ID not configured");
+    }
+
+    const sheets = await getGoogleSheetsClient();
+    return { sheets, spreadsheetId: this.spreadsheetId };
+  }
+
+  /**
+   * Looks up the sheet's ID and current row count from spreadsheet metadata
+   */
+  private async getSheetProperties({
+    sheets,
+    spreadsheetId,
+  }: SheetsConnection): Promise<SheetProperties> {
+    const spreadsheet = await sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: "sheets.properties(sheetId,title,gridProperties.rowCount)",
+    });
+    const sheet = spreadsheet.data.sheets?.find(
+      (s) => s.properties?.title === this.sheetName
+    );
+    const sheetId = sheet?.properties?.sheetId;
+
+    if (sheetId === undefined || sheetId === null) {
+      throw new Error("Sheet not found");
+    }
+
+    return {
+      sheetId,
+      rowCount: sheet?.properties?.gridProperties?.rowCount ?? 0,
+    };
+  }
+
+  /**
+   * Reads the header row and all task rows
+   *
+   * The sheet is read in chunks of READ_CHUNK_SIZE rows, several chunks per
+   * batchGet call, so there is no fixed row ceiling. Each chunk is padded to
+   * its full length so array indices keep matching sheet row numbers.
+   * Whole rows are read, so columns can sit anywhere in the sheet.
+   */
+  private async readSheet(
+    connection: SheetsConnection
+  ): Promise<{ header: string[]; rows: string[][] }> {
+    const { sheets, spreadsheetId } = connection;
+    const { rowCount } = await this.getSheetProperties(connection);
+
+    // Build chunk ranges from row 2 to the last row of the sheet
+    const chunks: { range: string; size: number }[] = [];
+    for (let start = 2; start <= rowCount; start += READ_CHUNK_SIZE) {
+      const end = Math.min(start + READ_CHUNK_SIZE - 1, rowCount);
+      chunks.push({
+        range: `${this.sheetName}!${start}:${end}`,
+        size: end - start + 1,
+      });
+    }
+
+    // The header row rides along with the first batch
+    const headerRange = `${this.sheetName}!1:1`;
+    let header: string[] = [];
+    const rows: string[][] = [];
+    let i = 0;
+    do {
+      const batch = chunks.slice(i, i + CHUNKS_PER_REQUEST);
+      const ranges = batch.map((chunk) => chunk.range);
+      const withHeader = i === 0;
+      const response = await sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges: withHeader ? [headerRange, ...ranges] : ranges,
+      });
+      const valueRanges = response.data.valueRanges || [];
+      const offset = withHeader ? 1 : 0;
+
+      if (withHeader) {
+        header = valueRanges[0]?.values?.[0] || [];
+      }
+
+      batch.forEach((chunk, chunkIndex) => {
+        const values = valueRanges[chunkIndex + offset]?.values || [];
+        for (let row = 0; row < chunk.size; row++) {
+          rows.push(values[row] || []);
+        }
+      });
+      i += CHUNKS_PER_REQUEST;
+    } while (i < chunks.length);
+
+    // Drop trailing empty rows left over from padding
+    while (rows.length > 0 && rows[rows.length - 1].length === 0) {
+      rows.pop();
+    }
+
+    return { header, rows };
+  }
+
+  /**
+   * Maps the header row to known columns
+   *
+   * Known columns missing from the header (all of them, for an empty header row) are
+   * placed after the last header cell and listed as missing, so reads work without
+   * writing anything; writeMissingHeaders adds them before the first write.
+   * Missing required columns fail with an error naming them.
+   */
+  private resolveLayout(header: string[]): {
+    layout: SheetLayout;
+    missing: TaskColumn[];
+  } {
+    const isEmpty = header.every((cell) => !cell || !cell.trim());
+    const { columns, missingRequired, missingOptional } = isEmpty
+      ? {
+          columns: {},
+          missingRequired: [],
+          missingOptional: TASK_COLUMNS.map((c) => c.name),
+        }
+      : parseHeaderRow(header);
+
+    if (missingRequired.length > 0) {
+      throw new Error(
+        `Sheet "${this.sheetName}" is missing required column(s): ${missingRequired.join(
+          ", "
+        )}. Add them to the header row (row 1).`
+      );
+    }
+
+    const width = isEmpty ? 0 : header.length;
+    missingOptional.forEach((name, index) => {
+      (columns as Partial<Record<TaskColumn, number>>)[name] = width + index;
+    });
+
+    return {
+      layout: {
+        columns: columns as Record<TaskColumn, number>,
+        width: width + missingOptional.length,
+      },
+      missing: missingOptional,
+    };
+  }
+
+  /**
+   * Adds the known columns the header row is missing, ahead of a write
+   */
+  private async writeMissingHeaders({
+    sheets,
+    spreadsheetId,
+  }: SheetsConnection): Promise<void> {
+    if (this.missingHeaders.length === 0) {
+      return;
+    }
+
+    const layout = this.layout!;
+    const names = this.missingHeaders;
+    const start = columnLetter(layout.columns[names[0]]);
+    const end = columnLetter(layout.columns[names[names.length - 1]]);
+    console.log(
+      `🧱 Adding column(s) ${names.join(", ")} to sheet ${this.sheetName}`
+    );
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: `${this.sheetName}!${start}1:${end}1`,
+      valueInputOption: "RAW",
+      requestBody: { values: [names] },
+    });
+    this.missingHeaders = [];
+  }
+
+  /**
+   * Returns the row cache, re-reading the sheet if the cache has expired
+   *
+   * @returns The cache and whether it was just reloaded
+   */
+  private async loadRows(
+    connection: SheetsConnection
+  ): Promise<{ cache: SheetRowCache; reloaded: boolean }> {
+    if (this.cache.isFresh()) {
+      return { cache: this.cache, reloaded: false };
+    }
+
+    const { header, rows } = await this.readSheet(connection);
+    console.log(`📥 Retrieved ${rows.length} total rows from spreadsheet`);
+    const { layout, missing } = this.resolveLayout(header);
+    this.layout = layout;
+    this.missingHeaders = missing;
+    this.cache.load(rows, { id: layout.columns.id, date: layout.columns.date });
+    return { cache: this.cache, reloaded: true };
+  }
+
+  /**
+   * Returns the column layout, reading the sheet first if needed
+   */
+  private async getLayout(connection: SheetsConnection): Promise<SheetLayout> {
+    await this.loadRows(connection);
+    return this.layout!;
+  }
+
+  /**
+   * Converts a row using the current column layout
+   */
+  private toTask(row: string[]): Task {
+    return rowToTask(row, this.layout!);
+  }
+
+  /**
+   * Finds a task's row for a write
+   *
+   * Uses the cached row index and re-reads only that row to confirm it still
+   * holds the task. If the sheet changed underneath us (rows edited, sorted or
+   * deleted outside the app), the cache is dropped and the sheet re-read.
+   *
+   * @returns The 0-based row index (relative to row 2) and current row, or null
+   */
+  private async locateRow(
+    connection: SheetsConnection,
+    id: string
+  ): Promise<{ index: number; row: string[] } | null> {
+    const { sheets, spreadsheetId } = connection;
+    const { cache, reloaded } = await this.loadRows(connection);
+    const index = cache.findIndex(id);
+
+    if (index !== -1) {
+      const rowNumber = index + 2;
+      const response = await sheets.spreadsheets.values.get({
+        spreadsheetId,
+        range: `${this.sheetName}!${rowNumber}:${rowNumber}`,
+      });
+      const row = response.data.values?.[0] || [];
+
+      if (row[this.layout!.columns.id] === id) {
+        cache.setRow(index, row);
+        return { index, row };
+      }
+    } else if (reloaded) {
+      // The sheet was just read, so the task really doesn't exist
+      return null;
+    }
+
+    // Cached position is stale - re-read the whole sheet once
+    console.log(`🔄 Row cache out of date for task ${id}, re-reading sheet`);
+    this.cache.invalidate();
+    const { cache: freshCache } = await this.loadRows(connection);
+    const freshIndex = freshCache.findIndex(id);
+    return freshIndex === -1
+      ? null
+      : { index: freshIndex, row: freshCache.getRow(freshIndex)! };
+  }
+
+  /**
+   * Writes a task's cells into its row and updates the cache
+   * Only the known columns are written, so extra columns are left untouched
+   */
+  private async writeRow(
+    connection: SheetsConnection,
+    index: number,
+    task: Task
+  ): Promise<void> {
+    const { sheets, spreadsheetId } = connection;
+    await this.writeMissingHeaders(connection);
+    const layout = this.layout!;
+    const values = taskToColumnValues(task);
+
+    // Row index + 2 because we start from row 2, and arrays are 0-indexed
+    const rowNumber = index + 2;
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        valueInputOption: "RAW", // USER_ENTERED would turn ISO dates into date cells
+        data: (Object.keys(values) as TaskColumn[]).map((column) => ({
+          range: `${this.sheetName}!${columnLetter(
+            layout.columns[column]
+          )}${rowNumber}`,
+          values: [[values[column]]],
+        })),
+      },
+    });
+
+    this.cache.setRow(
+      index,
+      taskToRow(task, layout, this.cache.getRow(index))
+    );
+  }
+
+  /**
+   * Finds a cached task by ID
+   */
+  private findCachedTask(id: string): Task | null {
+    const index = this.cache.findIndex(id);
+    return index === -1 ? null : this.toTask(this.cache.getRow(index)!);
+  }
+
+  /**
+   * Returns the unsaved occurrences of repeating series between `from` and `to`
+   */
+  private getOccurrences(from: Date, to: Date): Task[] {
+    const recurrenceColumn = this.layout!.columns.recurrence;
+    const series = this.cache
+      .getRows()
+      .filter((row) => row && row[recurrenceColumn])
+      .map((row) => this.toTask(row));
+    return expandRecurringTasks(
+      series,
+      from,
+      to,
+      (id) => this.cache.findIndex(id) !== -1
+    );
+  }
+
+  async listByDate(date: string): Promise<Task[]> {
+    const normalized = normalizeTaskDate(date);
+    if (!normalized) {
+      return [];
+    }
+
+    const { cache } = await this.loadRows(await this.connect());
+    const day = parseTaskDate(normalized)!;
+    return sortTasksByPosition([
+      ...cache
+        .getRowsForDate(normalized)
+        .map((row) => this.toTask(row))
+        .filter((task) => !isTaskDeleted(task) && !isRecurringTask(task)),
+      ...this.getOccurrences(day, day),
+    ]);
+  }
+
+  async listByDateRange(from: Date, to: Date): Promise<Task[]> {
+    const { cache } = await this.loadRows(await this.connect());
+
+    // Skip blank rows
+    return sortTasksByPosition([
+      ...cache
+        .getRows()
+        .filter((row) => row && row.length > 0)
+        .map((row) => this.toTask(row))
+        .filter(
+          (task) =>
+            isTaskInDateRange(task, from, to) &&
+            !isTaskDeleted(task) &&
+            !isRecurringTask(task)
+        ),
+      ...this.getOccurrences(from, to),
+    ]);
+  }
+
+  async get(id: string): Promise<Task | null> {
+    await this.loadRows(await this.connect());
+    return (
+      this.findCachedTask(id) ||
+      findUnsavedOccurrence(id, (seriesId) => this.findCachedTask(seriesId))
+    );
+  }
+
+  async create(input: NewTaskInput): Promise<Task> {
+    const connection = await this.connect();
+    await this.getLayout(connection);
+    const tasksOnDate = this.cache
+      .getRowsForDate(normalizeTaskDate(input.date) ?? input.date)
+      .map((row) => this.toTask(row));
+    const task = buildNewTask({
+      ...input,
+      position: input.position ?? getNextTaskPosition(tasksOnDate),
+    });
+    await this.appendTask(connection, task);
+    return task;
+  }
+
+  /**
+   * Appends a task as a new row and records it in the cache
+   */
+  private async appendTask(
+    connection: SheetsConnection,
+    task: Task
+  ): Promise<void> {
+    const { sheets, spreadsheetId } = connection;
+    await this.writeMissingHeaders(connection);
+    const layout = this.layout!;
+    const row = taskToRow(task, layout);
+
+    const response = await sheets.spreadsheets.values.append({
+      spreadsheetId,
+      range: `${this.sheetName}!A:${columnLetter(layout.width - 1)}`,
+      valueInputOption: "RAW", // Store values as-is (USER_ENTERED would turn ISO dates into date cells)
+      insertDataOption: "INSERT_ROWS", // Insert a new row
+      requestBody: {
+        values: [row],
+      },
+    });
+
+    // Record the new row in the cache using the range the API reports (e.g. "Sheet1!A42:J42")
+    const updatedRange = response.data.updates?.updatedRange || "";
+    const match = /![A-Z]+(\d+):/.exec(updatedRange);
+    if (match && this.cache.isFresh()) {
+      this.cache.appendRow(Number(match[1]) - 2, row);
+    } else {
+      this.cache.invalidate();
+    }
+  }
+
+  /**
+   * Finds the task a write targets
+   * An occurrence of a repeating series that hasn't been saved yet has no
+   * row, so it comes back with a null index and is appended when written.
+   */
+  private async locateTask(
+    connection: SheetsConnection,
+    id: string
+  ): Promise<{ index: number | null; task: Task } | null> {
+    const located = await this.locateRow(connection, id);
+    if (located) {
+      return { index: located.index, task: this.toTask(located.row) };
+    }
+
+    const occurrence = findUnsavedOccurrence(id, (seriesId) =>
+      this.findCachedTask(seriesId)
+    );
+    return occurrence ? { index: null, task: occurrence } : null;
+  }
+
+  /**
+   * Writes a task to its row, or appends it if it doesn't have one yet
+   */
+  private async saveTask(
+    connection: SheetsConnection,
+    index: number | null,
+    task: Task
+  ): Promise<void> {
+    if (index === null) {
+      await this.appendTask(connection, task);
+    } else {
+      await this.writeRow(connection, index, task);
+    }
+  }
+
+  async update(
+    id: string,
+    updates: TaskUpdates,
+    options?: WriteOptions
+  ): Promise<Task | null> {
+    const connection = await this.connect();
+    const located = await this.locateTask(connection, id);
+    if (!located) {
+      return null;
+    }
+
+    const { result, task } = applyBatchOperation(
+      { type: "update", id, updates, expectedVersion: options?.expectedVersion },
+      located.task
+    );
+    if (!task) {
+      return getUpdateResult(result);
+    }
+    await this.saveTask(connection, located.index, task);
+    await this.saveSubtaskChanges(connection, located.task, task);
+    return task;
+  }
+
+  /**
+   * Writes the parent or subtasks a change affects (see getSubtaskChanges),
+   * found among the cached rows of the task's previous date
+   */
+  private async saveSubtaskChanges(
+    connection: SheetsConnection,
+    previous: Task,
+    task: Task
+  ): Promise<void> {
+    const { cache } = await this.loadRows(connection);
+    const tasksOnDate = cache
+      .getRowsForDate(normalizeTaskDate(previous.date || "") ?? "")
+      .map((row) => this.toTask(row));
+    for (const change of getSubtaskChanges(previous, task, tasksOnDate)) {
+      const located = await this.locateRow(connection, change.id);
+      if (located) {
+        await this.writeRow(connection, located.index, change);
+      }
+    }
+  }
+
+  async delete(id: string, options?: WriteOptions): Promise<boolean> {
+    const connection = await this.connect();
+    const located = await this.locateTask(connection, id);
+    if (!located || isTaskDeleted(located.task)) {
+      return false;
+    }
+
+    assertExpectedVersion(located.task, options);
+    console.log(`🗑️ Moving task ${id} to the trash in sheet ${this.sheetName}`);
+    const task = setTaskDeleted(located.task, true);
+    await this.saveTask(connection, located.index, task);
+    await this.saveSubtaskChanges(connection, located.task, task);
+    return true;
+  }
+
+  async listDeleted(): Promise<Task[]> {
+    const { cache } = await this.loadRows(await this.connect());
+    return cache
+      .getRows()
+      .filter((row) => row && row.length > 0)
+      .map((row) => this.toTask(row))
+      .filter(isTaskDeleted);
+  }
+
+  async restore(id: string): Promise<Task | null> {
+    const connection = await this.connect();
+    const located = await this.locateRow(connection, id);
+    if (!located) {
+      return null;
+    }
+
+    const currentTask = this.toTask(located.row);
+    if (!isTaskDeleted(currentTask)) {
+      return null;
+    }
+
+    const task = setTaskDeleted(currentTask, false);
+    await this.writeRow(connection, located.index, task);
+    await this.saveSubtaskChanges(connection, currentTask, task);
+    return task;
+  }
+
+  async purgeDeleted(before: Date): Promise<number> {
+    const connection = await this.connect();
+    const { sheets, spreadsheetId } = connection;
+
+    // Always work from a fresh read - deleting rows by a stale index would remove the wrong tasks
+    this.cache.invalidate();
+    const { cache } = await this.loadRows(connection);
+
+    const indices: number[] = [];
+    cache.getRows().forEach((row, index) => {
+      if (row.length > 0 && isTaskDeletedBefore(this.toTask(row), before)) {
+        indices.push(index);
+      }
+    });
+
+    if (indices.length === 0) {
+      return 0;
+    }
+
+    const { sheetId } = await this.getSheetProperties(connection);
+
+    // Delete from the bottom up so earlier deletions don't shift later rows
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: indices
+          .sort((a, b) => b - a)
+          .map((index) => ({
+            deleteDimension: {
+              range: {
+                sheetId,
+                dimension: "ROWS",
+                startIndex: index + 1, // 0-indexed, +1 for the header row
+                endIndex: index + 2,
+              },
+            },
+          })),
+      },
+    });
+
+    this.cache.invalidate();
+    return indices.length;
+  }
+
+  /**
+   * Applies a batch of operations with a single spreadsheets.batchUpdate call
+   *
+   * The sheet is read once, every operation is run in memory, and the changed
+   * cells of all touched rows (plus any new rows) are written together.
+   */
+  async applyBatch(
+    operations: BatchOperation[]
+  ): Promise<BatchOperationResult[]> {
+    const connection = await this.connect();
+    const { sheets, spreadsheetId } = connection;
+
+    // Work from a fresh read so version checks see the sheet as it is now
+    this.cache.invalidate();
+    const { cache } = await this.loadRows(connection);
+    const layout = this.layout!;
+
+    // Row index -> task to write; new rows go after the last row
+    const changedRows = new Map<number, Task>();
+    let nextIndex = cache.getRows().length;
+    // Tasks appended by this batch (new tasks and saved occurrences) -> their row index
+    const appendedRows = new Map<string, number>();
+
+    // Tasks on a date as they stand partway through the batch
+    const getTasksOnDate = (date: string): Task[] => {
+      const tasks: Task[] = [];
+      for (let index = 0; index < nextIndex; index++) {
+        const row = cache.getRow(index);
+        const task =
+          changedRows.get(index) ??
+          (row && row.length > 0 ? this.toTask(row) : null);
+        if (task && isTaskOnDate(task, date)) {
+          tasks.push(task);
+        }
+      }
+      return tasks;
+    };
+
+    // A task as it stands partway through the batch (null if it has no row)
+    const getBatchTask = (id: string): Task | null => {
+      const index = appendedRows.get(id) ?? cache.findIndex(id);
+      return index === -1
+        ? null
+        : changedRows.get(index) ?? this.toTask(cache.getRow(index)!);
+    };
+
+    const results = operations.map((operation) => {
+      const index =
+        operation.type === "create"
+          ? -1
+          : appendedRows.get(operation.id) ?? cache.findIndex(operation.id);
+      const current =
+        index !== -1
+          ? changedRows.get(index) ?? this.toTask(cache.getRow(index)!)
+          : operation.type === "create"
+          ? null
+          : findUnsavedOccurrence(operation.id, (seriesId) =>
+              this.findCachedTask(seriesId)
+            );
+      const { result, task } = applyBatchOperation(
+        operation.type === "create" && operation.task.position === undefined
+          ? {
+              ...operation,
+              task: {
+                ...operation.task,
+                position: getNextTaskPosition(
+                  getTasksOnDate(operation.task.date)
+                ),
+              },
+            }
+          : operation,
+        current,
+        operation.type === "create" && operation.task.parent_id
+          ? getBatchTask(operation.task.parent_id)
+          : null
+      );
+
+      if (task && index === -1) {
+        appendedRows.set(task.id, nextIndex);
+        changedRows.set(nextIndex++, task);
+      } else if (task) {
+        changedRows.set(index, task);
+      }
+
+      if (task && current && operation.type !== "create") {
+        const tasksOnDate = getTasksOnDate(current.date || "");
+        for (const change of getSubtaskChanges(current, task, tasksOnDate)) {
+          changedRows.set(
+            appendedRows.get(change.id) ?? cache.findIndex(change.id),
+            change
+          );
+        }
+      }
+      return result;
+    });
+
+    if (changedRows.size === 0) {
+      return results;
+    }
+
+    await this.writeMissingHeaders(connection);
+    const { sheetId, rowCount } = await this.getSheetProperties(connection);
+    const requests: sheets_v4.Schema$Request[] = [];
+
+    // Grow the grid first if the new rows don't fit (+1 for the header row)
+    if (nextIndex + 1 > rowCount) {
+      requests.push({
+        appendDimension: {
+          sheetId,
+          dimension: "ROWS",
+          length: nextIndex + 1 - rowCount,
+        },
+      });
+    }
+
+    // Only the known columns are written, so extra columns are left untouched
+    changedRows.forEach((task, index) => {
+      const values = taskToColumnValues(task);
+      (Object.keys(values) as TaskColumn[]).forEach((column) => {
+        requests.push({
+          updateCells: {
+            start: {
+              sheetId,
+              rowIndex: index + 1, // 0-indexed, +1 for the header row
+              columnIndex: layout.columns[column],
+            },
+            rows: [
+              { values: [{ userEnteredValue: { stringValue: values[column] } }] },
+            ],
+            fields: "userEnteredValue",
+          },
+        });
+      });
+    });
+
+    console.log(
+      `📦 Applying ${operations.length} operations (${changedRows.size} rows) to sheet ${this.sheetName}`
+    );
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: { requests },
+    });
+
+    // New rows are added in index order, so appendRow keeps the cache in step
+    changedRows.forEach((task, index) => {
+      if (index < cache.getRows().length) {
+        cache.setRow(index, taskToRow(task, layout, cache.getRow(index)));
+      } else {
+        cache.appendRow(index, taskToRow(task, layout));
+      }
+    });
+
+    return results;
+  }
+
+  async migrateDates(): Promise<number> {
+    const connection = await this.connect();
+    const { sheets, spreadsheetId } = connection;
+
+    // Work from a fresh read so rows edited outside the app are migrated too
+    this.cache.invalidate();
+    const { cache } = await this.loadRows(connection);
+    // Migrating is a setup step, so it also adds any missing header cells
+    await this.writeMissingHeaders(connection);
+    const layout = this.layout!;
+    const dateColumn = columnLetter(layout.columns.date);
+    const versionColumn = columnLetter(layout.columns.version);
+
+    // Migrated rows get a new version, so their ETags change too
+    const changes: { index: number; date: string; version: number }[] = [];
+    cache.getRows().forEach((row, index) => {
+      const task = row.length > 0 ? this.toTask(row) : null;
+      const date = task ? getMigratedTaskDate(task) : null;
+      if (task && date) {
+        changes.push({ index, date, version: (task.version ?? 0) + 1 });
+      }
+    });
+
+    if (changes.length === 0) {
+      return 0;
+    }
+
+    console.log(
+      `📅 Migrating ${changes.length} dates to YYYY-MM-DD in sheet ${this.sheetName}`
+    );
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        valueInputOption: "RAW", // Keep the dates as plain text
+        data: changes.flatMap(({ index, date, version }) => [
+          {
+            range: `${this.sheetName}!${dateColumn}${index + 2}`,
+            values: [[date]],
+          },
+          {
+            range: `${this.sheetName}!${versionColumn}${index + 2}`,
+            values: [[String(version)]],
+          },
+        ]),
+      },
+    });
+
+    changes.forEach(({ index, date, version }) => {
+      const row = [...cache.getRow(index)!];
+      row[layout.columns.date] = date;
+      row[layout.columns.version] = String(version);
+      cache.setRow(index, row);
+    });
+    return changes.length;
+  }
+}
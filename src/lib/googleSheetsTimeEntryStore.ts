@@ -0,0 +1,195 @@
+import type { sheets_v4 } from "googleapis";
+import type { TimeEntry } from "@/lib/tasks";
+import { getGoogleSheetsClient } from "@/lib/googleSheets";
+import {
+  buildTimeEntry,
+  isTimerRunning,
+  stopTimeEntry,
+  type TimeEntryStore,
+} from "@/lib/timeEntryStore";
+
+interface GoogleSheetsTimeEntryStoreConfig {
+  spreadsheetId?: string;
+  sheetName: string;
+}
+
+interface SheetsConnection {
+  sheets: sheets_v4.Sheets;
+  spreadsheetId: string;
+}
+
+// Columns A-E of the time entry tab, in order
+const TIME_ENTRY_COLUMNS = ["id", "task_id", "start", "end", "duration"];
+
+/**
+ * Converts a sheet row (columns A-E) to a time entry
+ */
+function rowToTimeEntry(row: string[]): TimeEntry {
+  return {
+    id: row[0] || "",
+    task_id: row[1] || "",
+    start: row[2] || "",
+    end: row[3] || undefined,
+    duration: row[4] ? Number(row[4]) : undefined,
+  };
+}
+
+/**
+ * Converts a time entry to a sheet row (columns A-E)
+ */
+function timeEntryToRow(entry: TimeEntry): string[] {
+  return [
+    entry.id,
+    entry.task_id,
+    entry.start,
+    entry.end || "",
+    entry.duration !== undefined ? String(entry.duration) : "",
+  ];
+}
+
+/**
+ * Time entry store backed by its own tab in the task spreadsheet
+ * The tab (and its header row) is created the first time it's needed
+ */
+export class GoogleSheetsTimeEntryStore implements TimeEntryStore {
+  private spreadsheetId?: string;
+  private sheetName: string;
+  // Set once the tab is known to exist
+  private hasSheet = false;
+
+  constructor(config: GoogleSheetsTimeEntryStoreConfig) {
+    this.spreadsheetId = config.spreadsheetId;
+    this.sheetName = config.sheetName;
+  }
+
+  /**
+   * Connects to Google Sheets and makes sure the time entry tab exists
+   */
+  private async connect(): Promise<SheetsConnection> {
+    if (!this.spreadsheetId) {
+      throw new Error("Spreadsheet ID not configured");
+    }
+
+    const sheets = await getGoogleSheetsClient();
+    const connection = { sheets, spreadsheetId: this.spreadsheetId };
+    if (!this.hasSheet) {
+      await this.ensureSheet(connection);
+      this.hasSheet = true;
+    }
+    return connection;
+  }
+
+  /**
+   * Adds the time entry tab with its header row if the spreadsheet doesn't have it yet
+   */
+  private async ensureSheet({
+    sheets,
+    spreadsheetId,
+  }: SheetsConnection): Promise<void> {
+    const spreadsheet = await sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: "sheets.properties.title",
+    });
+    const exists = spreadsheet.data.sheets?.some(
+      (s) => s.properties?.title === this.sheetName
+    );
+    if (exists) {
+      return;
+    }
+
+    console.log(`🧱 Adding sheet ${this.sheetName} for time entries`);
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: [{ addSheet: { properties: { title: this.sheetName } } }],
+      },
+    });
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: `${this.sheetName}!A1:E1`,
+      valueInputOption: "RAW",
+      requestBody: { values: [TIME_ENTRY_COLUMNS] },
+    });
+  }
+
+  /**
+   * Reads all entry rows (row 2 onwards)
+   * Blank rows are kept so array indices keep matching sheet row numbers
+   */
+  private async readRows({
+    sheets,
+    spreadsheetId,
+  }: SheetsConnection): Promise<string[][]> {
+    const response = await sheets.spreadsheets.values.get({
+      spreadsheetId,
+      range: `${this.sheetName}!A2:E`,
+    });
+    return response.data.values || [];
+  }
+
+  /**
+   * Finds the row of a task's running timer
+   *
+   * @returns The 0-based row index (relative to row 2) and entry, or null
+   */
+  private findRunning(
+    rows: string[][],
+    taskId: string
+  ): { index: number; entry: TimeEntry } | null {
+    const index = rows.findIndex(
+      (row) => row[1] === taskId && isTimerRunning(rowToTimeEntry(row))
+    );
+    return index === -1 ? null : { index, entry: rowToTimeEntry(rows[index]) };
+  }
+
+  async listByTask(taskId: string): Promise<TimeEntry[]> {
+    const rows = await this.readRows(await this.connect());
+    return rows.filter((row) => row[1] === taskId).map(rowToTimeEntry);
+  }
+
+  async listRunning(): Promise<TimeEntry[]> {
+    const rows = await this.readRows(await this.connect());
+    return rows
+      .filter((row) => row.length > 0)
+      .map(rowToTimeEntry)
+      .filter(isTimerRunning);
+  }
+
+  async start(taskId: string): Promise<TimeEntry | null> {
+    const connection = await this.connect();
+    const { sheets, spreadsheetId } = connection;
+    if (this.findRunning(await this.readRows(connection), taskId)) {
+      return null;
+    }
+
+    const entry = buildTimeEntry(taskId);
+    await sheets.spreadsheets.values.append({
+      spreadsheetId,
+      range: `${this.sheetName}!A:E`,
+      valueInputOption: "RAW", // USER_ENTERED would turn timestamps into date cells
+      insertDataOption: "INSERT_ROWS",
+      requestBody: { values: [timeEntryToRow(entry)] },
+    });
+    return entry;
+  }
+
+  async stop(taskId: string): Promise<TimeEntry | null> {
+    const connection = await this.connect();
+    const { sheets, spreadsheetId } = connection;
+    const running = this.findRunning(await this.readRows(connection), taskId);
+    if (!running) {
+      return null;
+    }
+
+    const entry = stopTimeEntry(running.entry);
+    // Row index + 2 because entries start from row 2, and arrays are 0-indexed
+    const rowNumber = running.index + 2;
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: `${this.sheetName}!A${rowNumber}:E${rowNumber}`,
+      valueInputOption: "RAW",
+      requestBody: { values: [timeEntryToRow(entry)] },
+    });
+    return entry;
+  }
+}
@@ -0,0 +1,75 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * A JSON document on disk, shared by the JSON file stores
+ * Writes are atomic (temp file, then rename) and mutations run one at a time,
+ * so concurrent requests don't clobber each other.
+ */
+export class JsonFile<T> {
+  readonly filePath: string;
+  private description: string;
+  private parse: (data: Record<string, unknown>) => T;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param description - What the file holds, for error messages (e.g. "task file")
+   * @param parse - Turns the parsed JSON into the document; gets {} if the file doesn't exist yet
+   */
+  constructor(
+    filePath: string,
+    description: string,
+    parse: (data: Record<string, unknown>) => T
+  ) {
+    this.filePath = path.resolve(filePath);
+    this.description = description;
+    this.parse = parse;
+  }
+
+  /**
+   * Reads the file, returning an empty document if it doesn't exist yet
+   */
+  async read(): Promise<T> {
+    try {
+      const contents = await fs.readFile(this.filePath, "utf8");
+      return this.parse(JSON.parse(contents));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return this.parse({});
+      }
+      throw new Error(
+        `Failed to read ${this.description} at ${this.filePath}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Writes the file atomically (write to a temp file, then rename)
+   */
+  private async write(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Runs a mutation against the file contents, one at a time
+   */
+  mutate<R>(fn: (data: T) => { result: R; changed: boolean }): Promise<R> {
+    const run = async () => {
+      const data = await this.read();
+      const { result, changed } = fn(data);
+      if (changed) {
+        await this.write(data);
+      }
+      return result;
+    };
+
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
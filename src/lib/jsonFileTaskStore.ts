@@ -0,0 +1,281 @@
+import type { Task } from "@/lib/tasks";
+import { JsonFile } from "@/lib/jsonFile";
+import { parseTaskDate } from "@/lib/dates";
+import { toTimeSpentMinutes } from "@/lib/duration";
+import {
+  applyBatchOperation,
+  assertExpectedVersion,
+  buildNewTask,
+  expandRecurringTasks,
+  findUnsavedOccurrence,
+  getMigratedTaskDate,
+  getNextTaskPosition,
+  getSubtaskChanges,
+  getUpdateResult,
+  isRecurringTask,
+  isTaskDeleted,
+  isTaskDeletedBefore,
+  isTaskInDateRange,
+  isTaskOnDate,
+  setTaskDeleted,
+  sortTasksByPosition,
+  type BatchOperation,
+  type BatchOperationResult,
+  type NewTaskInput,
+  type TaskStore,
+  type TaskUpdates,
+  type WriteOptions,
+} from "@/lib/taskStore";
+
+/**
+ * On-disk format of the JSON task file
+ */
+interface TaskFileData {
+  tasks: Task[];
+}
+
+/**
+ * Task store backed by a JSON file on disk
+ * Useful for local development and self-hosting without Google credentials
+ */
+export class JsonFileTaskStore implements TaskStore {
+  private file: JsonFile<TaskFileData>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath, "task file", (data) => {
+      const tasks: Task[] = Array.isArray(data.tasks) ? data.tasks : [];
+      return {
+        ...data,
+        // Older files stored timeSpent as text ("45", "1h")
+        tasks: tasks.map((task) => ({
+          ...task,
+          timeSpent: toTimeSpentMinutes(task.timeSpent),
+        })),
+      };
+    });
+  }
+
+  /**
+   * Fills in the position of a new task (after the last task on its date)
+   */
+  private withPosition(data: TaskFileData, input: NewTaskInput): NewTaskInput {
+    if (input.position !== undefined) {
+      return input;
+    }
+    const tasksOnDate = data.tasks.filter((task) =>
+      isTaskOnDate(task, input.date)
+    );
+    return { ...input, position: getNextTaskPosition(tasksOnDate) };
+  }
+
+  /**
+   * Writes the parent or subtasks a change to a task affects (see getSubtaskChanges)
+   */
+  private applySubtaskChanges(
+    data: TaskFileData,
+    previous: Task,
+    task: Task
+  ): void {
+    const tasksOnDate = data.tasks.filter((other) =>
+      isTaskOnDate(other, previous.date || "")
+    );
+    for (const change of getSubtaskChanges(previous, task, tasksOnDate)) {
+      data.tasks[data.tasks.findIndex((other) => other.id === change.id)] =
+        change;
+    }
+  }
+
+  /**
+   * Whether a task is listed on its date (not trashed, and not a repeating series)
+   */
+  private isListed(task: Task): boolean {
+    return !isTaskDeleted(task) && !isRecurringTask(task);
+  }
+
+  /**
+   * Returns the unsaved occurrences of repeating series between `from` and `to`
+   */
+  private getOccurrences(tasks: Task[], from: Date, to: Date): Task[] {
+    const ids = new Set(tasks.map((task) => task.id));
+    return expandRecurringTasks(
+      tasks.filter(isRecurringTask),
+      from,
+      to,
+      (id) => ids.has(id)
+    );
+  }
+
+  /**
+   * Finds a task's index for a write, saving it first if it's an unsaved occurrence
+   *
+   * @returns The index, or -1 if there's no such task
+   */
+  private findIndexForWrite(data: TaskFileData, id: string): number {
+    const index = data.tasks.findIndex((task) => task.id === id);
+    if (index !== -1) {
+      return index;
+    }
+
+    const occurrence = findUnsavedOccurrence(id, (seriesId) =>
+      data.tasks.find((task) => task.id === seriesId) || null
+    );
+    return occurrence ? data.tasks.push(occurrence) - 1 : -1;
+  }
+
+  async listByDate(date: string): Promise<Task[]> {
+    const { tasks } = await this.file.read();
+    const day = parseTaskDate(date);
+    return sortTasksByPosition([
+      ...tasks.filter((task) => isTaskOnDate(task, date) && this.isListed(task)),
+      ...(day ? this.getOccurrences(tasks, day, day) : []),
+    ]);
+  }
+
+  async listByDateRange(from: Date, to: Date): Promise<Task[]> {
+    const { tasks } = await this.file.read();
+    return sortTasksByPosition([
+      ...tasks.filter(
+        (task) => isTaskInDateRange(task, from, to) && this.isListed(task)
+      ),
+      ...this.getOccurrences(tasks, from, to),
+    ]);
+  }
+
+  async get(id: string): Promise<Task | null> {
+    const { tasks } = await this.file.read();
+    const find = (taskId: string) =>
+      tasks.find((task) => task.id === taskId) || null;
+    return find(id) || findUnsavedOccurrence(id, find);
+  }
+
+  async create(input: NewTaskInput): Promise<Task> {
+    return this.file.mutate((data) => {
+      const task = buildNewTask(this.withPosition(data, input));
+      data.tasks.push(task);
+      return { result: task, changed: true };
+    });
+  }
+
+  async update(
+    id: string,
+    updates: TaskUpdates,
+    options?: WriteOptions
+  ): Promise<Task | null> {
+    // Through the batch path, so the subtask rules apply here too
+    const [result] = await this.applyBatch([
+      { type: "update", id, updates, expectedVersion: options?.expectedVersion },
+    ]);
+    return getUpdateResult(result);
+  }
+
+  async delete(id: string, options?: WriteOptions): Promise<boolean> {
+    return this.file.mutate((data) => {
+      const index = this.findIndexForWrite(data, id);
+      if (index === -1 || isTaskDeleted(data.tasks[index])) {
+        return { result: false, changed: false };
+      }
+
+      assertExpectedVersion(data.tasks[index], options);
+      const previous = data.tasks[index];
+      data.tasks[index] = setTaskDeleted(previous, true);
+      this.applySubtaskChanges(data, previous, data.tasks[index]);
+      return { result: true, changed: true };
+    });
+  }
+
+  async listDeleted(): Promise<Task[]> {
+    const { tasks } = await this.file.read();
+    return tasks.filter(isTaskDeleted);
+  }
+
+  async restore(id: string): Promise<Task | null> {
+    return this.file.mutate((data) => {
+      const index = data.tasks.findIndex(
+        (task) => task.id === id && isTaskDeleted(task)
+      );
+      if (index === -1) {
+        return { result: null, changed: false };
+      }
+
+      const previous = data.tasks[index];
+      const task = setTaskDeleted(previous, false);
+      data.tasks[index] = task;
+      this.applySubtaskChanges(data, previous, task);
+      return { result: task, changed: true };
+    });
+  }
+
+  async purgeDeleted(before: Date): Promise<number> {
+    return this.file.mutate((data) => {
+      const remaining = data.tasks.filter(
+        (task) => !isTaskDeletedBefore(task, before)
+      );
+      const purged = data.tasks.length - remaining.length;
+      data.tasks = remaining;
+      return { result: purged, changed: purged > 0 };
+    });
+  }
+
+  async applyBatch(
+    operations: BatchOperation[]
+  ): Promise<BatchOperationResult[]> {
+    return this.file.mutate((data) => {
+      const results = operations.map((operation) => {
+        const index =
+          operation.type === "create"
+            ? -1
+            : data.tasks.findIndex((task) => task.id === operation.id);
+        // Unsaved occurrences are only saved if the operation succeeds
+        const current =
+          index !== -1
+            ? data.tasks[index]
+            : operation.type === "create"
+            ? null
+            : findUnsavedOccurrence(operation.id, (seriesId) =>
+                data.tasks.find((task) => task.id === seriesId) || null
+              );
+        const { result, task } = applyBatchOperation(
+          operation.type === "create"
+            ? { ...operation, task: this.withPosition(data, operation.task) }
+            : operation,
+          current,
+          operation.type === "create" && operation.task.parent_id
+            ? data.tasks.find((task) => task.id === operation.task.parent_id) ||
+                null
+            : null
+        );
+
+        if (task && index === -1) {
+          data.tasks.push(task);
+        } else if (task) {
+          data.tasks[index] = task;
+        }
+
+        if (task && current && operation.type !== "create") {
+          this.applySubtaskChanges(data, current, task);
+        }
+        return result;
+      });
+
+      return {
+        result: results,
+        changed: results.some((result) => result.success),
+      };
+    });
+  }
+
+  async migrateDates(): Promise<number> {
+    return this.file.mutate((data) => {
+      let migrated = 0;
+      data.tasks.forEach((task) => {
+        const date = getMigratedTaskDate(task);
+        if (date) {
+          task.date = date;
+          task.version = (task.version ?? 0) + 1; // So the ETag changes too
+          migrated++;
+        }
+      });
+      return { result: migrated, changed: migrated > 0 };
+    });
+  }
+}
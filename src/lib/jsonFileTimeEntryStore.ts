@@ -0,0 +1,69 @@
+import type { TimeEntry } from "@/lib/tasks";
+import { JsonFile } from "@/lib/jsonFile";
+import {
+  buildTimeEntry,
+  isTimerRunning,
+  stopTimeEntry,
+  type TimeEntryStore,
+} from "@/lib/timeEntryStore";
+
+/**
+ * On-disk format of the JSON time entry file
+ */
+interface TimeEntryFileData {
+  entries: TimeEntry[];
+}
+
+/**
+ * Time entry store backed by a JSON file on disk (next to the JSON task file)
+ */
+export class JsonFileTimeEntryStore implements TimeEntryStore {
+  private file: JsonFile<TimeEntryFileData>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath, "time entry file", (data) => ({
+      ...data,
+      entries: Array.isArray(data.entries) ? data.entries : [],
+    }));
+  }
+
+  async listByTask(taskId: string): Promise<TimeEntry[]> {
+    const { entries } = await this.file.read();
+    return entries.filter((entry) => entry.task_id === taskId);
+  }
+
+  async listRunning(): Promise<TimeEntry[]> {
+    const { entries } = await this.file.read();
+    return entries.filter(isTimerRunning);
+  }
+
+  start(taskId: string): Promise<TimeEntry | null> {
+    return this.file.mutate((data) => {
+      const running = data.entries.some(
+        (entry) => entry.task_id === taskId && isTimerRunning(entry)
+      );
+      if (running) {
+        return { result: null, changed: false };
+      }
+
+      const entry = buildTimeEntry(taskId);
+      data.entries.push(entry);
+      return { result: entry, changed: true };
+    });
+  }
+
+  stop(taskId: string): Promise<TimeEntry | null> {
+    return this.file.mutate((data) => {
+      const index = data.entries.findIndex(
+        (entry) => entry.task_id === taskId && isTimerRunning(entry)
+      );
+      if (index === -1) {
+        return { result: null, changed: false };
+      }
+
+      const entry = stopTimeEntry(data.entries[index]);
+      data.entries[index] = entry;
+      return { result: entry, changed: true };
+    });
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Task notes: optional multi-line markdown shown in a task's detail view
+ */
+
+// Longest notes accepted (Sheets cells hold up to 50,000 characters)
+export const MAX_NOTES_LENGTH = 10000;
+
+/**
+ * Whether a notes value is valid (a string up to MAX_NOTES_LENGTH; "" clears the notes)
+ */
+export function isValidNotes(value: unknown): boolean {
+  return (
+    value === undefined ||
+    (typeof value === "string" && value.length <= MAX_NOTES_LENGTH)
+  );
+}
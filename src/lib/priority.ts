@@ -0,0 +1,45 @@
+/**
+ * Task priorities: 1 (P1, highest) to 3 (P3)
+ * A "!1", "!2" or "!3" token in task text sets the priority and is removed from the text.
+ */
+
+export const PRIORITIES = [1, 2, 3] as const;
+
+export type Priority = (typeof PRIORITIES)[number];
+
+const SHORTHAND_PATTERN = /(^|\s)!([1-3])(?=\s|$)/g;
+
+/**
+ * Whether a value is a valid priority
+ */
+export function isValidPriority(value: unknown): value is Priority {
+  return PRIORITIES.includes(value as Priority);
+}
+
+/**
+ * Pulls a "!1"-style priority out of task text
+ * If the text has several, the last one wins
+ *
+ * @returns The text without the shorthand, and the priority it set (if any)
+ */
+export function parsePriorityShorthand(text: string): {
+  text: string;
+  priority?: Priority;
+} {
+  let priority: Priority | undefined;
+  const stripped = text.replace(SHORTHAND_PATTERN, (_, space, level) => {
+    priority = Number(level) as Priority;
+    return space;
+  });
+
+  return priority === undefined
+    ? { text }
+    : { text: stripped.replace(/\s+/g, " ").trim(), priority };
+}
+
+/**
+ * Formats a priority for display ("P1")
+ */
+export function formatPriority(priority: Priority): string {
+  return `P${priority}`;
+}
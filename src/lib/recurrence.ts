@@ -0,0 +1,137 @@
+/**
+ * Recurrence rules for repeating tasks
+ *
+ * Rules are stored as short strings so they stay readable in the sheet:
+ * - "daily"              every day
+ * - "weekdays"           Monday to Friday
+ * - "weekly:mon,thu"     every week on the given days
+ * - "monthly:15"         every month on that day (clamped to the last day in shorter months)
+ * - "every:3"            every N days from the start date
+ */
+
+export type RecurrenceRule =
+  | { type: "daily" }
+  | { type: "weekdays" }
+  | { type: "weekly"; days: number[] } // 0 = Sunday
+  | { type: "monthly"; day: number }
+  | { type: "interval"; days: number };
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DAY_LABELS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Parses a stored rule string
+ *
+ * @returns The rule, or null if the string isn't a valid rule
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const [type, arg = ""] = value.trim().toLowerCase().split(":");
+
+  switch (type) {
+    case "daily":
+      return arg ? null : { type: "daily" };
+    case "weekdays":
+      return arg ? null : { type: "weekdays" };
+    case "weekly": {
+      const days = arg.split(",").map((day) => DAY_NAMES.indexOf(day.trim()));
+      return days.length > 0 && days.every((day) => day !== -1)
+        ? { type: "weekly", days: [...new Set(days)].sort((a, b) => a - b) }
+        : null;
+    }
+    case "monthly": {
+      const day = Number(arg);
+      return Number.isInteger(day) && day >= 1 && day <= 31
+        ? { type: "monthly", day }
+        : null;
+    }
+    case "every": {
+      const days = Number(arg);
+      return Number.isInteger(days) && days >= 1 && days <= 365
+        ? { type: "interval", days }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Formats a rule as its stored string
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case "daily":
+    case "weekdays":
+      return rule.type;
+    case "weekly":
+      return `weekly:${rule.days.map((day) => DAY_NAMES[day]).join(",")}`;
+    case "monthly":
+      return `monthly:${rule.day}`;
+    case "interval":
+      return `every:${rule.days}`;
+  }
+}
+
+/**
+ * Describes a rule for display (e.g. "Every week on Monday, Thursday")
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case "daily":
+      return "Every day";
+    case "weekdays":
+      return "Every weekday";
+    case "weekly":
+      return `Every week on ${rule.days.map((day) => DAY_LABELS[day]).join(", ")}`;
+    case "monthly":
+      return `Every month on day ${rule.day}`;
+    case "interval":
+      return `Every ${rule.days} days`;
+  }
+}
+
+/**
+ * Whether a rule that started on `start` has an occurrence on `date`
+ * Both are local dates at midnight; nothing occurs before the start date
+ */
+export function occursOn(
+  rule: RecurrenceRule,
+  start: Date,
+  date: Date
+): boolean {
+  if (date < start) {
+    return false;
+  }
+
+  switch (rule.type) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return date.getDay() >= 1 && date.getDay() <= 5;
+    case "weekly":
+      return rule.days.includes(date.getDay());
+    case "monthly": {
+      const lastDay = new Date(
+        date.getFullYear(),
+        date.getMonth() + 1,
+        0
+      ).getDate();
+      return date.getDate() === Math.min(rule.day, lastDay);
+    }
+    case "interval": {
+      // Round to whole days so DST changes don't matter
+      const days = Math.round(
+        (date.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)
+      );
+      return days % rule.days === 0;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import type { Task } from "@/lib/tasks";
+import { toTimeSpentMinutes } from "@/lib/duration";
+
+/**
+ * Column mapping for the task sheet
+ * Columns are found by their header name in row 1, so they can be in any order
+ * and the sheet can hold extra columns the app doesn't know about.
+ */
+
+export type TaskColumn =
+  | "id"
+  | "date"
+  | "text"
+  | "completed"
+  | "created_at"
+  | "time_spent"
+  | "version"
+  | "deleted_at"
+  | "position"
+  | "rolled_over_from"
+  | "rolled_over_to"
+  | "recurrence"
+  | "recurrence_id"
+  | "parent_id"
+  | "tags"
+  | "priority"
+  | "notes";
+
+/**
+ * Known columns, in the order used when creating a header row from scratch
+ * Optional columns are added to the header row automatically when missing
+ */
+export const TASK_COLUMNS: { name: TaskColumn; required: boolean }[] = [
+  { name: "id", required: true },
+  { name: "date", required: true },
+  { name: "text", required: true },
+  { name: "completed", required: true },
+  { name: "created_at", required: false },
+  { name: "time_spent", required: false },
+  { name: "version", required: false },
+  { name: "deleted_at", required: false },
+  { name: "position", required: false },
+  { name: "rolled_over_from", required: false },
+  { name: "rolled_over_to", required: false },
+  { name: "recurrence", required: false },
+  { name: "recurrence_id", required: false },
+  { name: "parent_id", required: false },
+  { name: "tags", required: false },
+  { name: "priority", required: false },
+  { name: "notes", required: false },
+];
+
+/**
+ * Where each known column lives in the sheet
+ */
+export interface SheetLayout {
+  columns: Record<TaskColumn, number>; // 0-based column index per field
+  width: number; // Number of header cells (known and unknown columns)
+}
+
+/**
+ * Normalizes a header so "time_spent", "Time Spent" and "timeSpent" all match
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Matches header cells to known columns
+ *
+ * @returns The columns found and the names of the ones that are missing
+ */
+export function parseHeaderRow(header: string[]): {
+  columns: Partial<Record<TaskColumn, number>>;
+  missingRequired: TaskColumn[];
+  missingOptional: TaskColumn[];
+} {
+  const columns: Partial<Record<TaskColumn, number>> = {};
+
+  header.forEach((cell, index) => {
+    const normalized = normalizeHeader(cell || "");
+    const column = TASK_COLUMNS.find(
+      ({ name }) => normalizeHeader(name) === normalized
+    );
+    // First matching header wins if a column name appears twice
+    if (column && columns[column.name] === undefined) {
+      columns[column.name] = index;
+    }
+  });
+
+  const missing = TASK_COLUMNS.filter(({ name }) => columns[name] === undefined);
+  return {
+    columns,
+    missingRequired: missing.filter((c) => c.required).map((c) => c.name),
+    missingOptional: missing.filter((c) => !c.required).map((c) => c.name),
+  };
+}
+
+/**
+ * Converts a 0-based column index to its A1 letter (0 -> "A", 26 -> "AA")
+ */
+export function columnLetter(index: number): string {
+  let letter = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const mod = (remaining - 1) % 26;
+    letter = String.fromCharCode(65 + mod) + letter;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letter;
+}
+
+/**
+ * Converts a sheet row into a task using the header layout
+ */
+export function rowToTask(row: string[], layout: SheetLayout): Task {
+  const cell = (column: TaskColumn) => row[layout.columns[column]] || "";
+
+  return {
+    id: cell("id"),
+    date: cell("date"),
+    text: cell("text"),
+    completed: cell("completed") === "true",
+    created_at: cell("created_at"),
+    timeSpent: toTimeSpentMinutes(cell("time_spent")), // Older rows may hold free text like "1h"
+    version: Number(cell("version")) || 0, // Rows written before versioning count as 0
+    deleted_at: cell("deleted_at"),
+    position: cell("position") === "" ? undefined : Number(cell("position")),
+    rolled_over_from: cell("rolled_over_from"),
+    rolled_over_to: cell("rolled_over_to"),
+    recurrence: cell("recurrence"),
+    recurrence_id: cell("recurrence_id"),
+    parent_id: cell("parent_id"),
+    tags: cell("tags") ? cell("tags").split(",") : [], // Stored as "work,client-a"
+    priority: cell("priority") === "" ? undefined : Number(cell("priority")),
+    notes: cell("notes"),
+  };
+}
+
+/**
+ * Returns the cell value for each known column of a task
+ */
+export function taskToColumnValues(task: Task): Record<TaskColumn, string> {
+  return {
+    id: task.id,
+    date: task.date || "",
+    text: task.text,
+    completed: task.completed ? "true" : "false",
+    created_at: task.created_at || "",
+    time_spent: task.timeSpent !== undefined ? String(task.timeSpent) : "",
+    version: String(task.version ?? 0),
+    deleted_at: task.deleted_at || "",
+    position: task.position !== undefined ? String(task.position) : "",
+    rolled_over_from: task.rolled_over_from || "",
+    rolled_over_to: task.rolled_over_to || "",
+    recurrence: task.recurrence || "",
+    recurrence_id: task.recurrence_id || "",
+    parent_id: task.parent_id || "",
+    tags: (task.tags || []).join(","),
+    priority: task.priority !== undefined ? String(task.priority) : "",
+    notes: task.notes || "",
+  };
+}
+
+/**
+ * Converts a task into a sheet row using the header layout
+ *
+ * @param existingRow - The row's current values; cells in columns the app
+ *                      doesn't know about are kept as they are
+ */
+export function taskToRow(
+  task: Task,
+  layout: SheetLayout,
+  existingRow: string[] = []
+): string[] {
+  const row = Array.from(
+    { length: layout.width },
+    (_, index) => existingRow[index] ?? ""
+  );
+  const values = taskToColumnValues(task);
+
+  (Object.keys(values) as TaskColumn[]).forEach((column) => {
+    row[layout.columns[column]] = values[column];
+  });
+  return row;
+}
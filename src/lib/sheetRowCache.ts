@@ -0,0 +1,140 @@
+import { normalizeTaskDate } from "@/lib/dates";
+
+/**
+ * In-memory cache of task sheet rows
+ * Rows are indexed by task id and by date so lookups don't need a full sheet read.
+ * Dates are indexed in ISO form, so rows still in the legacy "M/D/YYYY" format match too.
+ * Indices are 0-based and relative to row 2 (the first row after the header).
+ */
+export class SheetRowCache {
+  private rows: string[][] = [];
+  private idColumn = 0;
+  private dateColumn = 1;
+  private byId = new Map<string, number>();
+  private byDate = new Map<string, Set<number>>();
+  private loadedAt: number | null = null;
+  private ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Whether the cache holds rows that are younger than the TTL
+   */
+  isFresh(): boolean {
+    return this.loadedAt !== null && Date.now() - this.loadedAt < this.ttlMs;
+  }
+
+  /**
+   * Replaces the cache contents with freshly read rows
+   *
+   * @param keyColumns - Column indices of the task id and date, used for indexing
+   */
+  load(
+    rows: string[][],
+    keyColumns: { id: number; date: number }
+  ): void {
+    this.idColumn = keyColumns.id;
+    this.dateColumn = keyColumns.date;
+    this.rows = rows.map((row) => [...row]);
+    this.loadedAt = Date.now();
+    this.reindex();
+  }
+
+  /**
+   * Drops all cached rows so the next read goes to the sheet
+   */
+  invalidate(): void {
+    this.rows = [];
+    this.byId.clear();
+    this.byDate.clear();
+    this.loadedAt = null;
+  }
+
+  getRows(): string[][] {
+    return this.rows;
+  }
+
+  getRow(index: number): string[] | undefined {
+    return this.rows[index];
+  }
+
+  /**
+   * Returns the row index of a task, or -1 if it isn't cached
+   */
+  findIndex(id: string): number {
+    return this.byId.get(id) ?? -1;
+  }
+
+  /**
+   * Returns the rows for a date ("YYYY-MM-DD"), in sheet order
+   */
+  getRowsForDate(date: string): string[][] {
+    const indices = this.byDate.get(date);
+    if (!indices) {
+      return [];
+    }
+    return [...indices].sort((a, b) => a - b).map((index) => this.rows[index]);
+  }
+
+  /**
+   * Replaces a single row after it has been written to the sheet
+   */
+  setRow(index: number, row: string[]): void {
+    this.unindexRow(index);
+    this.rows[index] = [...row];
+    this.indexRow(index);
+  }
+
+  /**
+   * Records a row appended to the sheet
+   * Invalidates instead if the row didn't land directly after the cached rows
+   */
+  appendRow(index: number, row: string[]): void {
+    if (index !== this.rows.length) {
+      this.invalidate();
+      return;
+    }
+    this.rows.push([...row]);
+    this.indexRow(index);
+  }
+
+  private reindex(): void {
+    this.byId.clear();
+    this.byDate.clear();
+    this.rows.forEach((_, index) => this.indexRow(index));
+  }
+
+  private indexRow(index: number): void {
+    const row = this.rows[index];
+    const id = row[this.idColumn];
+    const date = this.getDateKey(row);
+    if (id) {
+      this.byId.set(id, index);
+    }
+    if (date) {
+      if (!this.byDate.has(date)) {
+        this.byDate.set(date, new Set());
+      }
+      this.byDate.get(date)!.add(index);
+    }
+  }
+
+  private unindexRow(index: number): void {
+    const row = this.rows[index];
+    if (!row) {
+      return;
+    }
+    const id = row[this.idColumn];
+    if (id && this.byId.get(id) === index) {
+      this.byId.delete(id);
+    }
+    this.byDate.get(this.getDateKey(row))?.delete(index);
+  }
+
+  private getDateKey(row: string[]): string {
+    const date = row[this.dateColumn] || "";
+    return normalizeTaskDate(date) ?? date;
+  }
+}
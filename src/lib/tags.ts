@@ -0,0 +1,43 @@
+/**
+ * #hashtag parsing for task text
+ * A tag is "#" followed by letters, digits, "_" or "-", at the start of the
+ * text or after whitespace (so "C#" and "page#anchor" aren't tags).
+ * Tags are case-insensitive and stored in lowercase.
+ */
+
+const TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_-]+)/gu;
+
+/**
+ * Returns the tags in a task's text, lowercased and without duplicates
+ */
+export function parseTags(text: string): string[] {
+  const tags = new Set<string>();
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    tags.add(match[2].toLowerCase());
+  }
+  return [...tags];
+}
+
+/**
+ * Removes tags from a task's text, for showing them separately as chips
+ */
+export function stripTags(text: string): string {
+  return text.replace(TAG_PATTERN, "$1").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Normalizes a tag from user input ("#Work" -> "work")
+ *
+ * @returns The tag, or null if it isn't a valid tag
+ */
+export function normalizeTag(value: string): string | null {
+  const tag = value.trim().replace(/^#/, "").toLowerCase();
+  return /^[\p{L}\p{N}_-]+$/u.test(tag) ? tag : null;
+}
+
+/**
+ * Returns a task's tags, falling back to parsing its text for tasks saved before tags existed
+ */
+export function getTaskTags(task: { text: string; tags?: string[] }): string[] {
+  return task.tags && task.tags.length > 0 ? task.tags : parseTags(task.text);
+}
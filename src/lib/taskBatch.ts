@@ -0,0 +1,7 @@
+/**
+ * Task batches: several creates, updates and deletes sent in one request
+ * Kept apart from taskStore so client code can split large changes into batches.
+ */
+
+// Most operations accepted in one batch
+export const MAX_BATCH_OPERATIONS = 100;
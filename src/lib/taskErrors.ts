@@ -0,0 +1,27 @@
+import type { Task } from "@/lib/tasks";
+
+/**
+ * Thrown when a write expected a task version that is no longer current
+ * (someone else changed or removed the task in between)
+ */
+export class TaskConflictError extends Error {
+  /** The task as it is now stored, if it still exists */
+  currentTask: Task | null;
+
+  constructor(currentTask: Task | null) {
+    super("Task was modified by someone else");
+    this.name = "TaskConflictError";
+    this.currentTask = currentTask;
+  }
+}
+
+/**
+ * Thrown when an update can't be applied to a task as it stands
+ * (e.g. changing the date of a subtask, which stays with its parent)
+ */
+export class TaskUpdateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskUpdateError";
+  }
+}
@@ -0,0 +1,226 @@
+import type { Task } from "@/lib/tasks";
+import { normalizeTaskDate } from "@/lib/dates";
+import { formatDuration } from "@/lib/duration";
+
+/**
+ * Task export: writes tasks out as CSV, JSON, Markdown or todo.txt
+ * Each format is produced as a sequence of chunks so the route can stream it.
+ */
+
+export const EXPORT_FORMATS = ["csv", "json", "md", "todotxt"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Longest date range an export can cover
+export const MAX_EXPORT_DAYS = 366;
+
+// Columns written to CSV, in order - every task field, like the JSON export
+const CSV_COLUMNS = [
+  "id",
+  "date",
+  "text",
+  "completed",
+  "created_at",
+  "timeSpent",
+  "priority",
+  "tags",
+  "parent_id",
+  "notes",
+  "position",
+  "recurrence",
+  "recurrence_id",
+  "rolled_over_from",
+  "rolled_over_to",
+  "version",
+  "deleted_at",
+] as const satisfies readonly (keyof Task)[];
+
+// Leading characters that make spreadsheet apps read a cell as a formula
+const CSV_FORMULA_START = /^[=+\-@]/;
+
+// todo.txt priorities for P1-P3
+const TODOTXT_PRIORITIES: Record<number, string> = { 1: "A", 2: "B", 3: "C" };
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  todotxt: "text/plain; charset=utf-8",
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  md: "md",
+  todotxt: "txt",
+};
+
+/**
+ * Whether a value is a supported export format
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Response headers for an export: content type, and a download file name like "tasks-2024-12-01-to-2024-12-31.csv"
+ */
+export function getExportHeaders(
+  format: ExportFormat,
+  from: string,
+  to: string
+): Record<string, string> {
+  const fileName = `tasks-${from}-to-${to}.${FILE_EXTENSIONS[format]}`;
+  return {
+    "Content-Type": CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="${fileName}"`,
+  };
+}
+
+/**
+ * Sorts tasks by date, then by their order on the card
+ */
+function sortForExport(tasks: Task[]): Task[] {
+  return [...tasks].sort(
+    (a, b) =>
+      (normalizeTaskDate(a.date || "") || "").localeCompare(
+        normalizeTaskDate(b.date || "") || ""
+      ) || (a.position ?? 0) - (b.position ?? 0)
+  );
+}
+
+/**
+ * Quotes a CSV field if it contains a comma, quote or line break
+ * A field starting with =, +, - or @ gets a leading ' so spreadsheets show it as text
+ * instead of running it as a formula (the importer drops the ' again).
+ */
+function csvField(value: unknown): string {
+  let text = value === undefined || value === null ? "" : String(value);
+  if (CSV_FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function* exportCsv(tasks: Task[]): Generator<string> {
+  yield `${CSV_COLUMNS.join(",")}\r\n`;
+  for (const task of tasks) {
+    yield `${CSV_COLUMNS.map((column) =>
+      csvField(column === "tags" ? task.tags?.join(" ") : task[column])
+    ).join(",")}\r\n`;
+  }
+}
+
+function* exportJson(tasks: Task[], from: string, to: string): Generator<string> {
+  yield `{"from":${JSON.stringify(from)},"to":${JSON.stringify(to)},"count":${tasks.length},"tasks":[`;
+  for (const [index, task] of tasks.entries()) {
+    yield `${index > 0 ? "," : ""}\n${JSON.stringify(task)}`;
+  }
+  yield "\n]}\n";
+}
+
+/**
+ * Markdown checklist line, e.g. "- [x] Write docs !1 (1h 30m)", with the priority as a "!1" token
+ */
+function markdownLine(task: Task, indent = ""): string {
+  const priority = task.priority ? ` !${task.priority}` : "";
+  const time = task.timeSpent ? ` (${formatDuration(task.timeSpent)})` : "";
+  return `${indent}- [${task.completed ? "x" : " "}] ${task.text}${priority}${time}\n`;
+}
+
+function* exportMarkdown(tasks: Task[], from: string, to: string): Generator<string> {
+  yield `# Tasks ${from} to ${to}\n`;
+
+  // Subtasks are listed under their parent, or on their own if the parent isn't exported
+  const ids = new Set(tasks.map((task) => task.id));
+  const subtasks = new Map<string, Task[]>();
+  for (const task of tasks) {
+    if (task.parent_id && ids.has(task.parent_id)) {
+      subtasks.set(task.parent_id, [...(subtasks.get(task.parent_id) ?? []), task]);
+    }
+  }
+
+  let currentDate: string | null = null;
+  for (const task of tasks) {
+    if (task.parent_id && ids.has(task.parent_id)) {
+      continue;
+    }
+
+    const date = normalizeTaskDate(task.date || "") || "No date";
+    if (date !== currentDate) {
+      currentDate = date;
+      yield `\n## ${date}\n\n`;
+    }
+    yield markdownLine(task);
+    for (const subtask of subtasks.get(task.id) ?? []) {
+      yield markdownLine(subtask, "  ");
+    }
+  }
+}
+
+/**
+ * todo.txt line: "x <done> <created> text" for completed tasks, "(A) <created> text" otherwise,
+ * with the task's date as "due:" and time spent as "time:" (minutes). Completed tasks can't
+ * have an "(A)" priority, so theirs is kept as "pri:A".
+ */
+function todoTxtLine(task: Task): string {
+  const date = normalizeTaskDate(task.date || "");
+  const created = task.created_at?.slice(0, 10);
+  const parts: string[] = [];
+
+  if (task.completed) {
+    // A creation date is only allowed after a completion date
+    parts.push("x");
+    if (date) {
+      parts.push(date);
+      if (created) parts.push(created);
+    }
+  } else {
+    if (task.priority && TODOTXT_PRIORITIES[task.priority]) {
+      parts.push(`(${TODOTXT_PRIORITIES[task.priority]})`);
+    }
+    if (created) parts.push(created);
+  }
+
+  // todo.txt is one line per task
+  parts.push(task.text.replace(/\s+/g, " ").trim());
+  if (task.completed && task.priority && TODOTXT_PRIORITIES[task.priority]) {
+    parts.push(`pri:${TODOTXT_PRIORITIES[task.priority]}`);
+  }
+  if (date) parts.push(`due:${date}`);
+  if (task.timeSpent) parts.push(`time:${task.timeSpent}`);
+
+  return `${parts.join(" ")}\n`;
+}
+
+function* exportTodoTxt(tasks: Task[]): Generator<string> {
+  for (const task of tasks) {
+    yield todoTxtLine(task);
+  }
+}
+
+/**
+ * Writes tasks out in an export format, as chunks of text
+ *
+ * @param tasks - Tasks to export, in any order (they're sorted by date and position)
+ * @param from - First date of the export ("YYYY-MM-DD"), used in headings
+ * @param to - Last date of the export ("YYYY-MM-DD")
+ */
+export function exportTasks(
+  tasks: Task[],
+  format: ExportFormat,
+  from: string,
+  to: string
+): Iterable<string> {
+  const sorted = sortForExport(tasks);
+  switch (format) {
+    case "csv":
+      return exportCsv(sorted);
+    case "json":
+      return exportJson(sorted, from, to);
+    case "md":
+      return exportMarkdown(sorted, from, to);
+    case "todotxt":
+      return exportTodoTxt(sorted);
+  }
+}
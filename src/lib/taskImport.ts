@@ -0,0 +1,410 @@
+import type { NewTaskInput } from "@/lib/taskStore";
+import { normalizeTaskDate } from "@/lib/dates";
+import { isValidTimeSpent, parseDuration } from "@/lib/duration";
+import { isValidNotes, MAX_NOTES_LENGTH } from "@/lib/notes";
+import { isValidPriority, parsePriorityShorthand } from "@/lib/priority";
+import {
+  isMarkdownCheckbox,
+  parseTaskLine,
+  parseTimeToken,
+} from "@/lib/taskSyntax";
+
+/**
+ * Task import: reads CSV, Markdown checklists and todo.txt into new tasks
+ * Each input row becomes an ImportRow with either a task or the reason it can't be imported.
+ */
+
+export const IMPORT_FORMATS = ["csv", "md", "todotxt"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+// Most rows accepted in one import
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Where a row stands: parsed ("ready"), rejected ("invalid"), already on its date
+ * ("duplicate"), or - once written - "imported" or "failed"
+ */
+export type ImportRowStatus =
+  | "ready"
+  | "invalid"
+  | "duplicate"
+  | "imported"
+  | "failed";
+
+export interface ImportRow {
+  line: number; // Line in the input the row starts on (1-based)
+  status: ImportRowStatus;
+  task?: NewTaskInput; // Unset for invalid rows
+  error?: string; // Why the row wasn't imported
+}
+
+export interface ImportRequest {
+  content: string; // The file's text
+  format?: ImportFormat; // Detected from the file name or content when unset
+  fileName?: string;
+  date?: string; // Date for rows that don't have one, e.g. today
+  dryRun?: boolean; // Preview only - nothing is created
+}
+
+// todo.txt priorities for P1-P3; lower letters have no matching priority
+const TODOTXT_PRIORITIES: Record<string, number> = { A: 1, B: 2, C: 3 };
+
+const CSV_ESCAPED_FORMULA = /^'[=+\-@]/;
+const DATE_IN_TEXT = /\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4}/;
+const MARKDOWN_HEADING = /^#{1,6}\s+(.*)$/;
+// Time written after a Markdown task, e.g. "Write docs (1h 30m)"
+const MARKDOWN_TIME = /\s+\(([^()]+)\)$/;
+
+/**
+ * Whether a value is a supported import format
+ */
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return IMPORT_FORMATS.includes(value as ImportFormat);
+}
+
+/**
+ * Checks an import request, returning an error message if it's invalid
+ */
+export function validateImportRequest(request: ImportRequest): string | null {
+  if (typeof request?.content !== "string" || !request.content.trim()) {
+    return "'content' must be the text of the file to import";
+  }
+  if (request.format !== undefined && !isImportFormat(request.format)) {
+    return `Invalid format. Use one of: ${IMPORT_FORMATS.join(", ")}`;
+  }
+  if (request.date !== undefined && !normalizeTaskDate(String(request.date))) {
+    return "Invalid date. Use YYYY-MM-DD or M/D/YYYY";
+  }
+  return null;
+}
+
+/**
+ * Guesses the format of an import from its file name, or from its content
+ */
+export function detectImportFormat(
+  content: string,
+  fileName?: string
+): ImportFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "csv") return "csv";
+  if (extension === "md" || extension === "markdown") return "md";
+  if (extension === "txt") return "todotxt";
+
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.some(isMarkdownCheckbox)) return "md";
+  if (/^"?text"?(,|$)|,"?text"?(,|$)/i.test(lines[0] ?? "")) return "csv";
+  return "todotxt";
+}
+
+/**
+ * Builds a row from parsed fields, checking them the same way the API does
+ *
+ * @param fields - The row's fields; an empty date means the default date
+ */
+function toImportRow(
+  line: number,
+  fields: NewTaskInput,
+  defaultDate?: string
+): ImportRow {
+  const text = fields.text.replace(/\s+/g, " ").trim();
+  const date = normalizeTaskDate(fields.date || defaultDate || "");
+  const error = !text
+    ? "Task text is missing"
+    : !fields.date && !date
+    ? "Date is missing"
+    : !date
+    ? `Invalid date "${fields.date}". Use YYYY-MM-DD or M/D/YYYY`
+    : !isValidTimeSpent(fields.timeSpent)
+    ? `Invalid time "${fields.timeSpent}". Use a duration like 90, 45m, 1h30m, 1:30 or 1.5h`
+    : fields.priority !== undefined && !isValidPriority(fields.priority)
+    ? "Invalid priority. Use 1, 2 or 3"
+    : !isValidNotes(fields.notes)
+    ? `Notes can be at most ${MAX_NOTES_LENGTH} characters`
+    : undefined;
+
+  return error
+    ? { line, status: "invalid", error }
+    : { line, status: "ready", task: { ...fields, text, date: date! } };
+}
+
+/**
+ * Splits CSV into rows of fields (RFC 4180: quoted fields may hold commas, quotes and line breaks)
+ *
+ * @returns Each row with the line it starts on
+ */
+function parseCsvRows(content: string): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+
+  return rows.filter((row) => row.fields.some((value) => value.trim()));
+}
+
+/**
+ * Reads a CSV completed value ("true", "yes", "x", "1"; empty means not completed)
+ */
+function parseCsvBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "y", "x", "1"].includes(normalized)) return true;
+  if (["false", "no", "n", "0", ""].includes(normalized)) return false;
+  return null;
+}
+
+/**
+ * CSV with a header row; the columns read are text (required), date, completed,
+ * timeSpent (or time_spent), priority and notes. Other columns (like an export's id) are ignored.
+ */
+function parseCsv(content: string, defaultDate?: string): ImportRow[] {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.fields.map((name) => name.trim().toLowerCase());
+  const column = (fields: string[], ...names: string[]) => {
+    const index = columns.findIndex((name) => names.includes(name));
+    const value = index === -1 ? "" : fields[index] ?? "";
+    // The export puts a ' in front of values that would read as a formula
+    return CSV_ESCAPED_FORMULA.test(value) ? value.slice(1) : value;
+  };
+
+  if (!columns.includes("text")) {
+    return [
+      {
+        line: header.line,
+        status: "invalid",
+        error: "The first row must name the columns, including a 'text' column",
+      },
+    ];
+  }
+
+  return rows.map(({ line, fields }) => {
+    const completed = parseCsvBoolean(column(fields, "completed"));
+    if (completed === null) {
+      return {
+        line,
+        status: "invalid",
+        error: `Invalid completed value "${column(fields, "completed")}". Use true or false`,
+      };
+    }
+
+    const priority = column(fields, "priority").trim();
+    return toImportRow(
+      line,
+      {
+        text: column(fields, "text"),
+        date: column(fields, "date").trim(),
+        completed,
+        timeSpent: column(fields, "timespent", "time_spent").trim() || undefined,
+        priority: priority ? Number(priority) : undefined,
+        notes: column(fields, "notes") || undefined,
+      },
+      defaultDate
+    );
+  });
+}
+
+/**
+ * Markdown: "- [ ]" / "- [x]" items under headings that hold their date (e.g. "## 2024-12-25")
+ * Items before any dated heading use the default date; other lines are ignored.
+ * Items are read like textarea lines (see lib/taskSyntax), so "~30m" sets the time,
+ * and a "!1" token sets the priority.
+ */
+function parseMarkdown(content: string, defaultDate?: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  let date = "";
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const heading = MARKDOWN_HEADING.exec(text.trim());
+    if (heading) {
+      date = DATE_IN_TEXT.exec(heading[1])?.[0] ?? date;
+      return;
+    }
+
+    const item = isMarkdownCheckbox(text) ? parseTaskLine(text) : null;
+    if (!item) {
+      return;
+    }
+
+    // A trailing "(1h 30m)" is the task's time, as written by the Markdown export
+    let taskText = item.text;
+    let timeSpent: string | number | undefined = item.timeSpent;
+    const time = MARKDOWN_TIME.exec(taskText);
+    if (time && parseDuration(time[1]) !== null) {
+      timeSpent = time[1];
+      taskText = taskText.slice(0, time.index);
+    }
+    const { text: plainText, priority } = parsePriorityShorthand(taskText);
+
+    rows.push(
+      toImportRow(
+        index + 1,
+        {
+          text: plainText,
+          date,
+          completed: item.completed,
+          timeSpent,
+          priority,
+        },
+        defaultDate
+      )
+    );
+  });
+
+  return rows;
+}
+
+/**
+ * todo.txt: "x" marks completed tasks and "(A)"-"(C)" (or "pri:A"-"pri:C") set P1-P3. The date comes from
+ * "due:", then the completion date; "time:" holds minutes spent (so does a "~30m" token).
+ * Creation dates are ignored.
+ */
+function parseTodoTxt(content: string, defaultDate?: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      return;
+    }
+
+    const completed = words[0] === "x";
+    if (completed) words.shift();
+
+    let priority: number | undefined;
+    const priorityMatch = /^\(([A-Z])\)$/.exec(words[0] ?? "");
+    if (priorityMatch) {
+      priority = TODOTXT_PRIORITIES[priorityMatch[1]];
+      words.shift();
+    }
+
+    // Completed tasks may have a completion date, then a creation date
+    const leadingDates: string[] = [];
+    while (leadingDates.length < 2 && /^\d{4}-\d{2}-\d{2}$/.test(words[0] ?? "")) {
+      leadingDates.push(words.shift()!);
+    }
+
+    let date = completed && leadingDates.length > 0 ? leadingDates[0] : "";
+    let timeSpent: string | number | undefined;
+    const textWords = words.filter((word) => {
+      if (word.startsWith("due:")) {
+        date = word.slice(4);
+        return false;
+      }
+      if (word.startsWith("time:")) {
+        timeSpent = word.slice(5);
+        return false;
+      }
+      // Completed tasks keep their priority as "pri:A"
+      if (/^pri:[A-Z]$/.test(word)) {
+        priority = priority ?? TODOTXT_PRIORITIES[word.slice(4)];
+        return false;
+      }
+      return true;
+    });
+
+    const token = parseTimeToken(textWords.join(" "));
+    rows.push(
+      toImportRow(
+        index + 1,
+        {
+          text: token.text,
+          date,
+          completed,
+          timeSpent: timeSpent ?? token.timeSpent,
+          priority,
+        },
+        defaultDate
+      )
+    );
+  });
+
+  return rows;
+}
+
+/**
+ * Parses an import into rows
+ *
+ * @param defaultDate - Date for rows that don't have one (e.g. today); rows without a date are invalid otherwise
+ */
+export function parseImport(
+  content: string,
+  format: ImportFormat,
+  defaultDate?: string
+): ImportRow[] {
+  switch (format) {
+    case "csv":
+      return parseCsv(content, defaultDate);
+    case "md":
+      return parseMarkdown(content, defaultDate);
+    case "todotxt":
+      return parseTodoTxt(content, defaultDate);
+  }
+}
+
+/**
+ * Key two tasks share if they're duplicates: same date and same text, ignoring case,
+ * spacing and a "!1"-style priority
+ */
+export function getImportKey(task: { text: string; date?: string }): string {
+  const text = parsePriorityShorthand(task.text)
+    .text.replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+  return `${normalizeTaskDate(task.date || "") ?? task.date}\n${text}`;
+}
+
+/**
+ * Counts rows by status
+ */
+export function countImportRows(rows: ImportRow[]): Record<ImportRowStatus, number> {
+  const counts: Record<ImportRowStatus, number> = {
+    ready: 0,
+    invalid: 0,
+    duplicate: 0,
+    imported: 0,
+    failed: 0,
+  };
+  for (const row of rows) {
+    counts[row.status] += 1;
+  }
+  return counts;
+}
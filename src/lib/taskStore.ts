@@ -0,0 +1,1058 @@
+import type { Task } from "@/lib/tasks";
+import {
+  eachTaskDateInRange,
+  normalizeTaskDate,
+  parseTaskDate,
+} from "@/lib/dates";
+import {
+  formatRecurrenceRule,
+  occursOn,
+  parseRecurrenceRule,
+} from "@/lib/recurrence";
+import { getTaskTags, parseTags } from "@/lib/tags";
+import { isValidPriority, parsePriorityShorthand } from "@/lib/priority";
+import { isValidNotes } from "@/lib/notes";
+import { MAX_BATCH_OPERATIONS } from "@/lib/taskBatch";
+import { isValidTimeSpent, toTimeSpentMinutes } from "@/lib/duration";
+import { TaskConflictError, TaskUpdateError } from "@/lib/taskErrors";
+import { getImportKey, type ImportRow } from "@/lib/taskImport";
+import { GoogleSheetsTaskStore } from "@/lib/googleSheetsTaskStore";
+import { JsonFileTaskStore } from "@/lib/jsonFileTaskStore";
+
+/**
+ * Fields accepted when creating a task
+ */
+export interface NewTaskInput {
+  text: string;
+  date: string;
+  completed?: boolean;
+  timeSpent?: string | number; // A duration such as 90, "1h30m" or "1:30" (see lib/duration)
+  position?: number; // Defaults to after the last task on the date
+  rolled_over_from?: string; // Date the task was rolled over from
+  recurrence?: string; // Makes the task a repeating series, e.g. "weekly:mon"
+  parent_id?: string; // Makes the task a subtask (checklist item) of another task
+  priority?: number; // 1-3; a "!1" token in the text also sets it
+  notes?: string; // Multi-line markdown
+}
+
+/**
+ * Fields that can be changed on an existing task
+ */
+export interface TaskUpdates {
+  text?: string;
+  completed?: boolean;
+  date?: string;
+  timeSpent?: string | number; // A duration; "" clears it
+  position?: number;
+  rolled_over_from?: string;
+  rolled_over_to?: string;
+  recurrence?: string; // "" stops the series
+  recurrence_id?: ""; // Detaches an occurrence from its series
+  priority?: number | null; // null clears it
+  notes?: string;
+}
+
+/**
+ * Preconditions for update and delete
+ */
+export interface WriteOptions {
+  /** Reject the write with a TaskConflictError unless the task is at this version (or one of these) */
+  expectedVersion?: number | number[];
+}
+
+/**
+ * A single change in a batch, applied in the order given
+ */
+export type BatchOperation =
+  | { type: "create"; task: NewTaskInput }
+  | {
+      type: "update";
+      id: string;
+      updates: TaskUpdates;
+      expectedVersion?: number | number[];
+    }
+  | { type: "delete"; id: string; expectedVersion?: number | number[] };
+
+/**
+ * Outcome of one batch operation
+ * A failed operation doesn't stop the ones after it
+ */
+export type BatchOperationResult =
+  | { success: true; task: Task }
+  | {
+      success: false;
+      error: string;
+      conflict?: boolean;
+      task?: Task | null; // Current task when the operation hit a version conflict
+    };
+
+const TASK_NOT_FOUND = "Task not found";
+
+/**
+ * Storage backend contract for tasks
+ * Every API route and server action goes through this interface,
+ * so backends can be swapped without touching the handlers
+ */
+export interface TaskStore {
+  /** Returns all tasks for a date (e.g. "2024-12-25" or "12/25/2024"), excluding trashed tasks */
+  listByDate(date: string): Promise<Task[]>;
+  /** Returns all tasks whose date falls between `from` and `to` (inclusive), excluding trashed tasks */
+  listByDateRange(from: Date, to: Date): Promise<Task[]>;
+  /** Returns a single task (including trashed tasks), or null if it doesn't exist */
+  get(id: string): Promise<Task | null>;
+  /** Creates a task and returns it with its generated id and timestamp */
+  create(input: NewTaskInput): Promise<Task>;
+  /** Applies updates to a task, returns null if it doesn't exist or is in the trash */
+  update(
+    id: string,
+    updates: TaskUpdates,
+    options?: WriteOptions
+  ): Promise<Task | null>;
+  /** Moves a task to the trash, returns false if it doesn't exist or is already trashed */
+  delete(id: string, options?: WriteOptions): Promise<boolean>;
+  /** Returns all tasks in the trash */
+  listDeleted(): Promise<Task[]>;
+  /** Takes a task out of the trash, returns null if it isn't in the trash */
+  restore(id: string): Promise<Task | null>;
+  /** Permanently removes trashed tasks deleted before `before`, returns how many were removed */
+  purgeDeleted(before: Date): Promise<number>;
+  /** Applies a list of operations in one write, returning a result per operation */
+  applyBatch(operations: BatchOperation[]): Promise<BatchOperationResult[]>;
+  /** Rewrites legacy "M/D/YYYY" dates as "YYYY-MM-DD" in place, returns how many tasks changed */
+  migrateDates(): Promise<number>;
+}
+
+/**
+ * Checks whether a task is on a date, whichever format either date is in
+ */
+export function isTaskOnDate(task: Task, date: string): boolean {
+  const normalized = normalizeTaskDate(date);
+  return !!normalized && normalizeTaskDate(task.date || "") === normalized;
+}
+
+/**
+ * Returns the ISO date a legacy-format task date should be rewritten to,
+ * or null if the date is already ISO (or can't be parsed)
+ */
+export function getMigratedTaskDate(task: Task): string | null {
+  const normalized = normalizeTaskDate(task.date || "");
+  return normalized && normalized !== task.date ? normalized : null;
+}
+
+/**
+ * Whether a task is a repeating series
+ * Series rows aren't listed themselves - their occurrences are (see expandRecurringTasks)
+ */
+export function isRecurringTask(task: Task): boolean {
+  return !!task.recurrence;
+}
+
+/**
+ * Whether a recurrence value is valid ("" clears it)
+ */
+export function isValidRecurrence(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === "" ||
+    (typeof value === "string" && parseRecurrenceRule(value) !== null)
+  );
+}
+
+/**
+ * Converts a rule string to its canonical form ("Weekly:Thu,Mon" -> "weekly:mon,thu")
+ */
+function normalizeRecurrence(value: string | undefined): string | undefined {
+  const rule = value ? parseRecurrenceRule(value) : null;
+  return rule ? formatRecurrenceRule(rule) : value;
+}
+
+/**
+ * ID of a series' occurrence on a date (e.g. "task-123@2025-01-06")
+ * Occurrences keep this ID once they're saved, so each date has at most one
+ */
+export function getOccurrenceId(seriesId: string, date: string): string {
+  return `${seriesId}@${date}`;
+}
+
+/**
+ * Builds the unsaved occurrence of a series on a date
+ * The occurrence on the start date carries the series' own state, so turning
+ * a task into a series doesn't lose its completion or time
+ */
+function buildOccurrence(series: Task, date: string): Task {
+  const isStartDate = normalizeTaskDate(series.date || "") === date;
+  return {
+    id: getOccurrenceId(series.id, date),
+    date,
+    text: series.text,
+    tags: series.tags,
+    notes: series.notes,
+    priority: series.priority,
+    completed: isStartDate ? series.completed : false,
+    created_at: series.created_at,
+    timeSpent: isStartDate ? series.timeSpent : undefined,
+    position: series.position,
+    version: 0, // Not saved yet
+    recurrence_id: series.id,
+  };
+}
+
+/**
+ * Returns the unsaved occurrences of repeating series between `from` and `to`
+ *
+ * Occurrences are generated when dates are read. Once one is edited,
+ * completed or deleted it is saved as a task of its own (with the same ID),
+ * so it's no longer generated and changes to it don't affect the others.
+ *
+ * @param series - Repeating series (tasks with a recurrence rule)
+ * @param isSaved - Whether a task with the given ID exists (including trashed tasks)
+ */
+export function expandRecurringTasks(
+  series: Task[],
+  from: Date,
+  to: Date,
+  isSaved: (id: string) => boolean
+): Task[] {
+  const occurrences: Task[] = [];
+
+  for (const task of series) {
+    const rule = parseRecurrenceRule(task.recurrence || "");
+    const start = parseTaskDate(task.date || "");
+    if (!rule || !start || isTaskDeleted(task)) {
+      continue;
+    }
+
+    const first = start > from ? start : from;
+    for (const date of eachTaskDateInRange(first, to)) {
+      if (
+        occursOn(rule, start, parseTaskDate(date)!) &&
+        !isSaved(getOccurrenceId(task.id, date))
+      ) {
+        occurrences.push(buildOccurrence(task, date));
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Resolves an occurrence ID that hasn't been saved yet
+ * Callers check for a saved task with the ID first
+ *
+ * @param findTask - Looks up a saved task by ID
+ * @returns The unsaved occurrence, or null if the ID isn't a valid occurrence
+ */
+export function findUnsavedOccurrence(
+  id: string,
+  findTask: (id: string) => Task | null
+): Task | null {
+  const separator = id.lastIndexOf("@");
+  if (separator === -1) {
+    return null;
+  }
+
+  const series = findTask(id.slice(0, separator));
+  const date = id.slice(separator + 1);
+  const rule = parseRecurrenceRule(series?.recurrence || "");
+  const start = parseTaskDate(series?.date || "");
+  if (
+    !series ||
+    !rule ||
+    !start ||
+    isTaskDeleted(series) ||
+    normalizeTaskDate(date) !== date
+  ) {
+    return null;
+  }
+
+  return occursOn(rule, start, parseTaskDate(date)!)
+    ? buildOccurrence(series, date)
+    : null;
+}
+
+/**
+ * Checks that a new subtask's parent exists, is on the same date, and isn't a subtask itself
+ *
+ * @returns An error message, or null if the parent is valid
+ */
+export async function checkParentTask(
+  store: TaskStore,
+  parentId: string,
+  date: string
+): Promise<string | null> {
+  return getParentTaskError(await store.get(parentId), date);
+}
+
+/**
+ * Checks a new subtask's parent, as looked up by the caller (see checkParentTask)
+ *
+ * @param parent - The parent task, or null if it doesn't exist
+ * @returns An error message, or null if the parent is valid
+ */
+export function getParentTaskError(
+  parent: Task | null,
+  date: string
+): string | null {
+  if (!parent || isTaskDeleted(parent)) {
+    return "Parent task not found";
+  }
+  if (parent.parent_id) {
+    return "Subtasks can't have subtasks of their own";
+  }
+  if (normalizeTaskDate(parent.date || "") !== normalizeTaskDate(date)) {
+    return "Subtasks must be on the same date as their parent";
+  }
+  return null;
+}
+
+/**
+ * Whether a task has a tag (given in lowercase, without the "#")
+ */
+export function hasTag(task: Task, tag: string): boolean {
+  return getTaskTags(task).includes(tag);
+}
+
+/**
+ * Checks whether a task's date falls between `from` and `to` (inclusive)
+ */
+export function isTaskInDateRange(task: Task, from: Date, to: Date): boolean {
+  const date = task.date ? parseTaskDate(task.date) : null;
+  return !!date && date >= from && date <= to;
+}
+
+/**
+ * Sorts tasks by their manual position
+ * Tasks without a position (created before ordering existed) keep their
+ * stored order and come after the positioned ones
+ */
+export function sortTasksByPosition(tasks: Task[]): Task[] {
+  return [...tasks].sort(
+    (a, b) => (a.position ?? Infinity) - (b.position ?? Infinity)
+  );
+}
+
+/**
+ * Position for a new task so it's listed after the existing tasks on its date
+ *
+ * @returns undefined if some tasks on the date have no position yet - those
+ *          are listed last, so the new task has to go without one too
+ */
+export function getNextTaskPosition(tasksOnDate: Task[]): number | undefined {
+  const tasks = tasksOnDate.filter((task) => !isTaskDeleted(task));
+  if (tasks.some((task) => task.position === undefined)) {
+    return undefined;
+  }
+  return tasks.reduce((max, task) => Math.max(max, task.position! + 1), 0);
+}
+
+/**
+ * Whether a task is in the trash
+ */
+export function isTaskDeleted(task: Task): boolean {
+  return !!task.deleted_at;
+}
+
+/**
+ * Whether a trashed task was deleted before `before` (and is due for purging)
+ */
+export function isTaskDeletedBefore(task: Task, before: Date): boolean {
+  return !!task.deleted_at && new Date(task.deleted_at) < before;
+}
+
+/**
+ * Returns a copy of a task moved to (or taken out of) the trash
+ */
+export function setTaskDeleted(task: Task, deleted: boolean): Task {
+  return {
+    ...task,
+    deleted_at: deleted ? new Date().toISOString() : "",
+    version: (task.version ?? 0) + 1,
+  };
+}
+
+/**
+ * Generates a new task ID
+ */
+export function generateTaskId(): string {
+  return `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Builds a complete task from creation input
+ */
+export function buildNewTask(input: NewTaskInput): Task {
+  const { text, priority } = parsePriorityShorthand(input.text);
+  return {
+    id: generateTaskId(),
+    date: normalizeTaskDate(input.date) ?? input.date,
+    text: text.trim(),
+    tags: parseTags(text),
+    priority: input.priority ?? priority,
+    notes: input.notes || undefined,
+    completed: input.completed === true,
+    created_at: new Date().toISOString(),
+    timeSpent: toTimeSpentMinutes(input.timeSpent),
+    position: input.position,
+    rolled_over_from: input.rolled_over_from,
+    recurrence: normalizeRecurrence(input.recurrence),
+    parent_id: input.parent_id,
+    version: 1,
+  };
+}
+
+/**
+ * Applies updates to an existing task, returning a new task object
+ */
+export function applyTaskUpdates(task: Task, updates: TaskUpdates): Task {
+  const shorthand =
+    updates.text !== undefined
+      ? parsePriorityShorthand(updates.text)
+      : undefined;
+  return {
+    ...task,
+    date:
+      updates.date !== undefined
+        ? normalizeTaskDate(updates.date) ?? updates.date
+        : task.date,
+    text: shorthand ? shorthand.text.trim() : task.text,
+    tags: shorthand ? parseTags(shorthand.text) : task.tags,
+    priority:
+      updates.priority !== undefined
+        ? updates.priority ?? undefined
+        : shorthand?.priority ?? task.priority,
+    notes: updates.notes !== undefined ? updates.notes || undefined : task.notes,
+    completed:
+      updates.completed !== undefined
+        ? updates.completed === true
+        : task.completed,
+    created_at: task.created_at || new Date().toISOString(),
+    timeSpent:
+      updates.timeSpent !== undefined
+        ? toTimeSpentMinutes(updates.timeSpent)
+        : task.timeSpent,
+    position: updates.position !== undefined ? updates.position : task.position,
+    rolled_over_from:
+      updates.rolled_over_from !== undefined
+        ? updates.rolled_over_from
+        : task.rolled_over_from,
+    rolled_over_to:
+      updates.rolled_over_to !== undefined
+        ? updates.rolled_over_to
+        : task.rolled_over_to,
+    recurrence:
+      updates.recurrence !== undefined
+        ? normalizeRecurrence(updates.recurrence)
+        : task.recurrence,
+    recurrence_id:
+      updates.recurrence_id !== undefined ? undefined : task.recurrence_id,
+    version: (task.version ?? 0) + 1,
+  };
+}
+
+/**
+ * Throws a TaskConflictError if the task isn't at the expected version (or any of the expected versions)
+ */
+export function assertExpectedVersion(
+  task: Task,
+  options: WriteOptions = {}
+): void {
+  const { expectedVersion } = options;
+  if (expectedVersion === undefined) {
+    return;
+  }
+
+  const versions = Array.isArray(expectedVersion)
+    ? expectedVersion
+    : [expectedVersion];
+  if (!versions.includes(task.version ?? 0)) {
+    throw new TaskConflictError(task);
+  }
+}
+
+/**
+ * Whether a value can be used as a task position (a whole number, 0 or more)
+ */
+export function isValidPosition(position: unknown): position is number {
+  return Number.isInteger(position) && (position as number) >= 0;
+}
+
+/**
+ * Checks that a batch request body is a list of well-formed operations
+ *
+ * @returns An error message, or null if the batch is valid
+ */
+export function validateBatchOperations(operations: unknown): string | null {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return "'operations' must be a non-empty array";
+  }
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    return `A batch can contain at most ${MAX_BATCH_OPERATIONS} operations`;
+  }
+
+  for (const [index, operation] of operations.entries()) {
+    const valid =
+      operation?.type === "create"
+        ? typeof operation.task?.text === "string" &&
+          !!operation.task.text.trim() &&
+          (operation.task.completed === undefined ||
+            typeof operation.task.completed === "boolean") &&
+          !!normalizeTaskDate(String(operation.task?.date ?? "")) &&
+          isValidRecurrence(operation.task?.recurrence) &&
+          (operation.task?.priority === undefined ||
+            isValidPriority(operation.task.priority)) &&
+          isValidNotes(operation.task?.notes) &&
+          isValidTimeSpent(operation.task?.timeSpent)
+        : operation?.type === "update"
+        ? !!operation.id &&
+          typeof operation.updates === "object" &&
+          operation.updates !== null &&
+          (operation.updates.text === undefined ||
+            typeof operation.updates.text === "string") &&
+          (operation.updates.completed === undefined ||
+            typeof operation.updates.completed === "boolean") &&
+          (operation.updates.date === undefined ||
+            !!normalizeTaskDate(String(operation.updates.date))) &&
+          (operation.updates.position === undefined ||
+            isValidPosition(operation.updates.position)) &&
+          isValidRecurrence(operation.updates.recurrence) &&
+          (operation.updates.recurrence_id === undefined ||
+            operation.updates.recurrence_id === "") &&
+          (operation.updates.priority == null ||
+            isValidPriority(operation.updates.priority)) &&
+          isValidNotes(operation.updates.notes) &&
+          isValidTimeSpent(operation.updates.timeSpent)
+        : operation?.type === "delete"
+        ? !!operation.id
+        : false;
+
+    if (!valid) {
+      return `Operation ${index} is invalid. Use { type: "create", task: { text, date } }, { type: "update", id, updates } or { type: "delete", id }, with dates as YYYY-MM-DD or M/D/YYYY`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Applies one batch operation to the current state of its task
+ * Stores run the whole batch in memory with this, then write the changes in one go
+ *
+ * @param current - The task the operation targets, or null if it doesn't exist (ignored for creates)
+ * @param parent - For a create with a parent_id, the parent as it stands (null if it doesn't exist)
+ * @returns The operation's result, and the task to write (null if nothing changed)
+ */
+export function applyBatchOperation(
+  operation: BatchOperation,
+  current: Task | null,
+  parent: Task | null = null
+): { result: BatchOperationResult; task: Task | null } {
+  if (operation.type === "create") {
+    const parentError = operation.task.parent_id
+      ? getParentTaskError(parent, operation.task.date)
+      : null;
+    if (parentError) {
+      return { result: { success: false, error: parentError }, task: null };
+    }
+
+    const task = buildNewTask(operation.task);
+    return { result: { success: true, task }, task };
+  }
+
+  if (!current || isTaskDeleted(current)) {
+    return {
+      result: { success: false, error: TASK_NOT_FOUND },
+      task: null,
+    };
+  }
+
+  try {
+    assertExpectedVersion(current, operation);
+  } catch (error) {
+    if (error instanceof TaskConflictError) {
+      return {
+        result: {
+          success: false,
+          error: "Task was changed by someone else",
+          conflict: true,
+          task: error.currentTask,
+        },
+        task: null,
+      };
+    }
+    throw error;
+  }
+
+  if (
+    operation.type === "update" &&
+    current.parent_id &&
+    operation.updates.date !== undefined &&
+    normalizeTaskDate(operation.updates.date) !==
+      normalizeTaskDate(current.date || "")
+  ) {
+    return {
+      result: {
+        success: false,
+        error: "Subtasks stay on their parent's date - move the parent instead",
+      },
+      task: null,
+    };
+  }
+
+  const task =
+    operation.type === "update"
+      ? applyTaskUpdates(current, operation.updates)
+      : setTaskDeleted(current, true);
+  return { result: { success: true, task }, task };
+}
+
+/**
+ * Changes that keep a parent and its subtasks in step after a write
+ * Stores write these along with the task, so every write path follows them:
+ * - a parent moved to another date takes its subtasks with it
+ * - completing a parent's last open subtask completes the parent
+ * - trashing a parent trashes its subtasks with the same deleted_at, so
+ *   restoring the parent brings back just those (not ones trashed on their own)
+ *
+ * @param previous - The task before the write
+ * @param task - The task after the write
+ * @param tasksOnDate - Tasks on the previous date as they stand now, trashed ones included
+ * @returns The parent or subtasks to write too
+ */
+export function getSubtaskChanges(
+  previous: Task,
+  task: Task,
+  tasksOnDate: Task[]
+): Task[] {
+  const others = tasksOnDate.filter((other) => other.id !== task.id);
+  const subtasks = task.parent_id
+    ? []
+    : others.filter((other) => other.parent_id === task.id);
+
+  if (isTaskDeleted(task) && !isTaskDeleted(previous)) {
+    return subtasks
+      .filter((subtask) => !isTaskDeleted(subtask))
+      .map((subtask) => ({
+        ...setTaskDeleted(subtask, true),
+        deleted_at: task.deleted_at,
+      }));
+  }
+  if (!isTaskDeleted(task) && isTaskDeleted(previous)) {
+    return subtasks
+      .filter((subtask) => subtask.deleted_at === previous.deleted_at)
+      .map((subtask) => setTaskDeleted(subtask, false));
+  }
+
+  const live = others.filter((other) => !isTaskDeleted(other));
+  if (!task.parent_id) {
+    const moved =
+      normalizeTaskDate(task.date || "") !==
+      normalizeTaskDate(previous.date || "");
+    return moved
+      ? live
+          .filter((other) => other.parent_id === task.id)
+          .map((subtask) => applyTaskUpdates(subtask, { date: task.date }))
+      : [];
+  }
+
+  if (!task.completed || previous.completed) {
+    return [];
+  }
+  const parent = live.find((other) => other.id === task.parent_id);
+  const allDone = live.every(
+    (other) => other.parent_id !== task.parent_id || other.completed
+  );
+  return parent && !parent.completed && allDone
+    ? [applyTaskUpdates(parent, { completed: true })]
+    : [];
+}
+
+/**
+ * Turns the result of a one-operation update batch into what TaskStore.update returns
+ *
+ * @returns The updated task, or null if it doesn't exist or is in the trash
+ * @throws TaskConflictError if the task isn't at the expected version
+ * @throws TaskUpdateError if the update can't be applied (e.g. a subtask's date)
+ */
+export function getUpdateResult(result: BatchOperationResult): Task | null {
+  if (result.success) {
+    return result.task;
+  }
+  if (result.conflict) {
+    throw new TaskConflictError(result.task ?? null);
+  }
+  if (result.error === TASK_NOT_FOUND) {
+    return null;
+  }
+  throw new TaskUpdateError(result.error);
+}
+
+/**
+ * Checks that a reorder request is a list of distinct task IDs, no longer than a batch
+ *
+ * @returns An error message, or null if the list is valid
+ */
+export function validateReorderIds(ids: unknown): string | null {
+  if (
+    !Array.isArray(ids) ||
+    ids.length === 0 ||
+    ids.length > MAX_BATCH_OPERATIONS ||
+    !ids.every((id) => typeof id === "string" && id) ||
+    new Set(ids).size !== ids.length
+  ) {
+    return `'ids' must be a list of up to ${MAX_BATCH_OPERATIONS} distinct task IDs. Use: { ids: ['task-1', 'task-2'] }`;
+  }
+  return null;
+}
+
+/**
+ * Puts tasks in the given order by rewriting their positions (0, 1, 2, ...)
+ * All positions are written in a single batch
+ *
+ * @param ids - Task IDs in their new order
+ * @returns The reordered tasks (IDs that don't exist or are trashed are skipped)
+ */
+export async function reorderTasks(
+  store: TaskStore,
+  ids: string[]
+): Promise<Task[]> {
+  const results = await store.applyBatch(
+    ids.map((id, position) => ({
+      type: "update",
+      id,
+      updates: { position },
+    }))
+  );
+
+  return results.flatMap((result) => (result.success ? [result.task] : []));
+}
+
+/**
+ * How a rollover brings tasks forward
+ * - "move": the task itself changes date
+ * - "copy": a new task is created on the target date and the original stays put
+ */
+export type RolloverMode = "move" | "copy";
+
+export interface RolloverRequest {
+  to: string; // Date to roll tasks into (normally today)
+  ids?: string[]; // Roll over these tasks...
+  date?: string; // ...or every unfinished task on this date
+  mode: RolloverMode;
+  /** Record the source date on the rolled-over task, and (for copies) the target date on the original */
+  record?: boolean;
+}
+
+/**
+ * Outcome of rolling over one task
+ * On success `task` is the task now on the target date (the copy, in "copy" mode)
+ */
+export type RolloverResult = { id: string } & BatchOperationResult;
+
+/**
+ * Whether a task can be rolled over to `to`: unfinished, not already
+ * rolled over, not in the trash, on an earlier date, and not a subtask
+ * (subtasks move with their parent)
+ */
+export function isTaskRolloverCandidate(task: Task, to: string): boolean {
+  const date = normalizeTaskDate(task.date || "");
+  return (
+    !!date &&
+    date < to &&
+    !task.completed &&
+    !task.rolled_over_to &&
+    !task.parent_id &&
+    !isTaskDeleted(task)
+  );
+}
+
+/**
+ * Checks a rollover request: a target date, and either a list of task IDs
+ * (short enough that a recorded copy of each fits in one batch) or a date
+ *
+ * @returns An error message, or null if the request is valid
+ */
+export function validateRolloverRequest(request: {
+  to?: unknown;
+  ids?: unknown;
+  date?: unknown;
+  mode?: unknown;
+}): string | null {
+  const { to, ids, date, mode } = request;
+  if (!to || !normalizeTaskDate(String(to))) {
+    return "'to' must be a date. Use: { to: '2024-12-25', date: '2024-12-20' }";
+  }
+  if ((ids === undefined) === (date === undefined)) {
+    return "Provide either 'ids' (specific tasks) or 'date' (a whole day)";
+  }
+  if (
+    ids !== undefined &&
+    (!Array.isArray(ids) ||
+      ids.length === 0 ||
+      ids.length > MAX_BATCH_OPERATIONS / 2 || // A recorded copy takes two operations
+      !ids.every((id) => typeof id === "string" && id))
+  ) {
+    return `'ids' must be a list of up to ${MAX_BATCH_OPERATIONS / 2} task IDs`;
+  }
+  if (date !== undefined && !normalizeTaskDate(String(date))) {
+    return "Invalid date. Use YYYY-MM-DD (or M/D/YYYY)";
+  }
+  if (mode !== "move" && mode !== "copy") {
+    return "'mode' must be 'move' or 'copy'";
+  }
+  return null;
+}
+
+/**
+ * Moves or copies unfinished tasks from earlier dates to `request.to`
+ * All changes are written in a single batch; rolled-over tasks go after the
+ * tasks already on the target date. Moved tasks take their subtasks with
+ * them; copies keep the text, tags, priority and notes but start without subtasks.
+ *
+ * @returns A result per task, in the order the tasks were given (or listed)
+ */
+export async function rolloverTasks(
+  store: TaskStore,
+  request: RolloverRequest
+): Promise<RolloverResult[]> {
+  const to = normalizeTaskDate(request.to);
+  if (!to) {
+    throw new Error("Invalid target date");
+  }
+
+  const tasks: { id: string; task: Task | null }[] = request.date
+    ? (await store.listByDate(request.date))
+        .filter((task) => isTaskRolloverCandidate(task, to))
+        .map((task) => ({ id: task.id, task }))
+    : await Promise.all(
+        (request.ids || []).map(async (id) => ({
+          id,
+          task: await store.get(id),
+        }))
+      );
+
+  const operations: BatchOperation[] = [];
+  // Index of each task's main operation (the move, or the create for a copy)
+  const operationIndex = new Map<string, number>();
+  const errors = new Map<string, string>();
+  let nextPosition = getNextTaskPosition(await store.listByDate(to));
+
+  for (const { id, task } of tasks) {
+    if (!task || isTaskDeleted(task)) {
+      errors.set(id, "Task not found");
+      continue;
+    }
+    if (!isTaskRolloverCandidate(task, to)) {
+      errors.set(
+        id,
+        "Only unfinished tasks from earlier dates that haven't been rolled over can be rolled over"
+      );
+      continue;
+    }
+
+    const from = normalizeTaskDate(task.date || "")!;
+    const expectedVersion = task.version ?? 0;
+    operationIndex.set(id, operations.length);
+
+    if (request.mode === "move") {
+      // The store moves the task's subtasks along with it
+      operations.push({
+        type: "update",
+        id,
+        expectedVersion,
+        updates: {
+          date: to,
+          position: nextPosition,
+          // Keep the first date if the task has been moved before
+          rolled_over_from: request.record
+            ? task.rolled_over_from || from
+            : undefined,
+        },
+      });
+    } else {
+      operations.push({
+        type: "create",
+        task: {
+          text: task.text, // Tags come with the text
+          date: to,
+          priority: task.priority,
+          notes: task.notes,
+          position: nextPosition,
+          rolled_over_from: request.record ? from : undefined,
+        },
+      });
+      if (request.record) {
+        operations.push({
+          type: "update",
+          id,
+          expectedVersion,
+          updates: { rolled_over_to: to },
+        });
+      }
+    }
+
+    if (nextPosition !== undefined) {
+      nextPosition++;
+    }
+  }
+
+  const results =
+    operations.length > 0 ? await store.applyBatch(operations) : [];
+
+  return tasks.map(({ id }) => {
+    const index = operationIndex.get(id);
+    return index === undefined
+      ? { id, success: false, error: errors.get(id)! }
+      : { id, ...results[index] };
+  });
+}
+
+/**
+ * Imports parsed rows as new tasks
+ * Rows matching a task already on their date (or an earlier row) are marked
+ * "duplicate" and skipped. The rest are created through applyBatch, in as few
+ * batches as MAX_BATCH_OPERATIONS allows.
+ *
+ * @param dryRun - Only mark duplicates, without creating anything (for a preview)
+ * @returns The rows with their final status, in the order given
+ */
+export async function importTasks(
+  store: TaskStore,
+  rows: ImportRow[],
+  dryRun = false
+): Promise<ImportRow[]> {
+  const dates = rows
+    .filter((row) => row.status === "ready")
+    .map((row) => row.task!.date)
+    .sort();
+  const existing =
+    dates.length > 0
+      ? await store.listByDateRange(
+          parseTaskDate(dates[0])!,
+          parseTaskDate(dates[dates.length - 1])!
+        )
+      : [];
+
+  const seen = new Set(existing.map(getImportKey));
+  const checked = rows.map((row): ImportRow => {
+    if (row.status !== "ready") {
+      return row;
+    }
+    const key = getImportKey(row.task!);
+    if (seen.has(key)) {
+      return { ...row, status: "duplicate", error: "Already on this date" };
+    }
+    seen.add(key);
+    return row;
+  });
+
+  const ready = checked.filter((row) => row.status === "ready");
+  if (dryRun || ready.length === 0) {
+    return checked;
+  }
+
+  const results: BatchOperationResult[] = [];
+  for (let i = 0; i < ready.length; i += MAX_BATCH_OPERATIONS) {
+    results.push(
+      ...(await store.applyBatch(
+        ready
+          .slice(i, i + MAX_BATCH_OPERATIONS)
+          .map((row) => ({ type: "create" as const, task: row.task! }))
+      ))
+    );
+  }
+
+  const resultByRow = new Map(ready.map((row, index) => [row, results[index]]));
+  return checked.map((row) => {
+    const result = resultByRow.get(row);
+    if (!result) {
+      return row;
+    }
+    return result.success
+      ? { ...row, status: "imported" }
+      : { ...row, status: "failed", error: result.error };
+  });
+}
+
+let taskStore: TaskStore | null = null;
+
+/**
+ * Picks the default backend when TASK_STORE is not set
+ * Falls back to the local JSON file in development when no Google credentials exist,
+ * so `npm run dev` works out of the box
+ */
+export function getDefaultBackend(): string {
+  const hasSheetsCredentials = !!(
+    process.env.GOOGLE_SHEETS_CREDENTIALS_BASE64 ||
+    process.env.GOOGLE_SHEETS_CREDENTIALS_JSON ||
+    process.env.GOOGLE_SHEETS_CREDENTIALS
+  );
+
+  if (!hasSheetsCredentials && process.env.NODE_ENV !== "production") {
+    console.warn(
+      "⚠️ No Google Sheets credentials found - using local JSON task store. Set TASK_STORE to choose a backend explicitly."
+    );
+    return "json";
+  }
+
+  return "sheets";
+}
+
+/**
+ * Number of days trashed tasks are kept before they're purged
+ * Configured with TRASH_RETENTION_DAYS (default: 30)
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : 30;
+}
+
+/**
+ * Permanently removes trashed tasks older than the retention period
+ */
+export async function purgeExpiredTrash(store: TaskStore): Promise<number> {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - getTrashRetentionDays());
+  const purged = await store.purgeDeleted(cutoff);
+  if (purged > 0) {
+    console.log(`🧹 Purged ${purged} tasks from the trash`);
+  }
+  return purged;
+}
+
+/**
+ * Returns the configured task store
+ *
+ * The backend is selected with the TASK_STORE environment variable:
+ * - "sheets": Google Sheets (default when credentials are configured)
+ * - "json": local JSON file at TASK_STORE_FILE (default: data/tasks.json)
+ */
+export function getTaskStore(): TaskStore {
+  if (taskStore) {
+    return taskStore;
+  }
+
+  const backend = process.env.TASK_STORE || getDefaultBackend();
+
+  switch (backend) {
+    case "sheets":
+      taskStore = new GoogleSheetsTaskStore({
+        spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
+        sheetName: process.env.GOOGLE_SHEETS_SHEET_NAME || "Sheet1",
+        cacheTtlMs: process.env.GOOGLE_SHEETS_CACHE_TTL_MS
+          ? Number(process.env.GOOGLE_SHEETS_CACHE_TTL_MS)
+          : undefined,
+      });
+      break;
+    case "json":
+      taskStore = new JsonFileTaskStore(
+        process.env.TASK_STORE_FILE || "data/tasks.json"
+      );
+      break;
+    default:
+      throw new Error(
+        `Unknown TASK_STORE "${backend}". Supported values: sheets, json`
+      );
+  }
+
+  return taskStore;
+}
@@ -0,0 +1,192 @@
+import { formatDuration, parseDuration } from "@/lib/duration";
+
+/**
+ * Plain-text task lines, as typed in textarea cards and read by imports
+ *
+ * A line can mark its task completed in three ways:
+ * - "✓ Buy milk"
+ * - "- [x] Buy milk" (Markdown; "- [ ] Buy milk" is an open task)
+ * - "x Buy milk" (todo.txt)
+ * A "~30m" token anywhere in the line sets the time spent (any duration with a unit,
+ * e.g. "~1h30m" or "~1:30" - a bare number like "~20 people" stays in the text).
+ *
+ * A backslash keeps text literal: "\x ray results" is an open task called "x ray results",
+ * and "\~45m" is the word "~45m" rather than a time. Lines are written with these
+ * escapes where needed, so formatTaskLine's output always parses back to the same task.
+ */
+
+/**
+ * How a line marks completed tasks
+ * - "check": "✓ " in front of completed tasks, nothing in front of open ones
+ * - "markdown": "- [x] " / "- [ ] "
+ * - "todotxt": "x " in front of completed tasks
+ */
+export type TaskLineStyle = "check" | "markdown" | "todotxt";
+
+export interface TaskLine {
+  text: string;
+  completed: boolean;
+  timeSpent?: number; // Whole minutes, from a "~30m" token
+  style?: TaskLineStyle; // How the line was marked; unset for a plain open task
+}
+
+const CHECK_PREFIX = "✓";
+const MARKDOWN_CHECKBOX = /^[-*+]\s+\[([ xX])\](?:\s+|$)/;
+const TODOTXT_COMPLETED = /^x\s+/;
+const TIME_TOKEN = /(^|\s)~(\S+)(?=\s|$)/g;
+// A "~" word behind one or more backslashes; one is dropped when reading
+const ESCAPED_TIME_TOKEN = /(^|\s)\\(\\*~\S+)(?=\s|$)/g;
+// Text that would read as a completion marker, behind any number of backslashes
+const ESCAPED_MARKER = /^\\*(?:✓|x\s|[-*+]\s+\[[ xX]\])/;
+const BARE_NUMBER = /^\d+(?:\.\d+)?$/;
+
+/**
+ * Whether a line is a Markdown checkbox item ("- [ ] ..." or "- [x] ...", indented or not)
+ */
+export function isMarkdownCheckbox(line: string): boolean {
+  return MARKDOWN_CHECKBOX.test(line.trim());
+}
+
+/**
+ * Pulls a "~30m" time token out of task text
+ * Tokens that aren't durations with a unit (like "~ish" or "~20") are left in
+ * the text; if there are several, the last one wins
+ *
+ * @returns The text without the token, and the minutes it set (if any)
+ */
+export function parseTimeToken(text: string): {
+  text: string;
+  timeSpent?: number;
+} {
+  let timeSpent: number | undefined;
+  const stripped = text
+    .replace(TIME_TOKEN, (match, space, value) => {
+      const minutes = parseTimeValue(value);
+      if (minutes === null) {
+        return match;
+      }
+      timeSpent = minutes;
+      return "";
+    })
+    .replace(ESCAPED_TIME_TOKEN, "$1$2");
+
+  return timeSpent === undefined
+    ? { text: stripped }
+    : { text: stripped.trim(), timeSpent };
+}
+
+/**
+ * Minutes in a "~" token's value, or null if it isn't a duration with a unit
+ */
+function parseTimeValue(value: string): number | null {
+  return BARE_NUMBER.test(value) ? null : parseDuration(value);
+}
+
+/**
+ * Backslash-escapes "~" words that would otherwise read as a time token
+ * (and ones already behind a backslash, so reading drops only the added one)
+ */
+function escapeTimeTokens(text: string): string {
+  return text.replace(/(^|\s)(\\*)~(\S+)(?=\s|$)/g, (match, space, slashes, value) =>
+    slashes || parseTimeValue(value) !== null ? `${space}\\${slashes}~${value}` : match
+  );
+}
+
+/**
+ * Formats minutes as a time token ("~45m", "~2h", "~1h30m")
+ */
+export function formatTimeToken(minutes: number): string {
+  return `~${formatDuration(minutes).replace(/\s+/g, "")}`;
+}
+
+/**
+ * Parses one line into a task
+ *
+ * @returns The task, or null if the line is blank (or only a marker)
+ */
+export function parseTaskLine(line: string): TaskLine | null {
+  let rest = line.trim();
+  let completed = false;
+  let style: TaskLineStyle | undefined;
+
+  const checkbox = MARKDOWN_CHECKBOX.exec(rest);
+  if (checkbox) {
+    completed = checkbox[1].toLowerCase() === "x";
+    style = "markdown";
+    rest = rest.slice(checkbox[0].length);
+  } else if (rest.startsWith(CHECK_PREFIX)) {
+    completed = true;
+    style = "check";
+    rest = rest.slice(CHECK_PREFIX.length);
+  } else if (TODOTXT_COMPLETED.test(rest)) {
+    completed = true;
+    style = "todotxt";
+    rest = rest.replace(TODOTXT_COMPLETED, "");
+  } else if (rest.startsWith("\\") && ESCAPED_MARKER.test(rest)) {
+    // An open task whose text looks like a marker, e.g. "\x ray results"
+    rest = rest.slice(1);
+  }
+
+  const { text, timeSpent } = parseTimeToken(rest.trim());
+  if (!text) {
+    return null;
+  }
+
+  return {
+    text,
+    completed,
+    ...(timeSpent !== undefined ? { timeSpent } : {}),
+    ...(style ? { style } : {}),
+  };
+}
+
+/**
+ * Writes a task as a line in the given style, with its time as a "~" token
+ * Text that would read back differently (an open "x ray results", a "~45m" word)
+ * is backslash-escaped, so parseTaskLine returns the same task.
+ */
+export function formatTaskLine(
+  task: { text: string; completed: boolean; timeSpent?: number },
+  style: TaskLineStyle = "check"
+): string {
+  const marker =
+    style === "markdown"
+      ? task.completed
+        ? "- [x] "
+        : "- [ ] "
+      : task.completed
+      ? style === "todotxt"
+        ? "x "
+        : `${CHECK_PREFIX} `
+      : "";
+  let text = escapeTimeTokens(task.text);
+  if (!marker && ESCAPED_MARKER.test(text)) {
+    text = `\\${text}`;
+  }
+  const time = task.timeSpent ? ` ${formatTimeToken(task.timeSpent)}` : "";
+  return `${marker}${text}${time}`;
+}
+
+/**
+ * Picks the style to write lines back in: the one most of the marked lines use
+ *
+ * @param fallback - Style to use when no line is marked
+ */
+export function detectTaskLineStyle(
+  lines: TaskLine[],
+  fallback: TaskLineStyle = "check"
+): TaskLineStyle {
+  const counts: Record<TaskLineStyle, number> = {
+    check: 0,
+    markdown: 0,
+    todotxt: 0,
+  };
+  for (const line of lines) {
+    if (line.style) counts[line.style]++;
+  }
+
+  return (Object.keys(counts) as TaskLineStyle[]).reduce(
+    (best, style) => (counts[style] > counts[best] ? style : best),
+    fallback
+  );
+}
@@ -0,0 +1,70 @@
+import { PRIORITIES } from "@/lib/priority";
+
+/**
+ * Per-card view options: how a card's tasks are sorted, and whether completed ones are shown
+ * These only change what's displayed - the saved task order is left alone.
+ */
+
+export type TaskSortMode = "manual" | "priority" | "completion" | "time";
+
+export interface TaskViewOptions {
+  sort: TaskSortMode;
+  hideCompleted: boolean;
+}
+
+export const DEFAULT_TASK_VIEW: TaskViewOptions = {
+  sort: "manual",
+  hideCompleted: false,
+};
+
+export const TASK_SORT_LABELS: Record<TaskSortMode, string> = {
+  manual: "Manual order",
+  priority: "Priority",
+  completion: "Unfinished first",
+  time: "Time spent",
+};
+
+interface ViewableTask {
+  completed: boolean;
+  priority?: number;
+  timeSpent?: number;
+}
+
+/**
+ * Whether a view differs from the default (manual order, completed shown)
+ */
+export function isCustomTaskView(view: TaskViewOptions): boolean {
+  return view.sort !== "manual" || view.hideCompleted;
+}
+
+/**
+ * Applies view options to a card's tasks (given in manual order)
+ * Sorting is stable, so ties keep their manual order
+ */
+export function applyTaskView<T extends ViewableTask>(
+  tasks: T[],
+  view: TaskViewOptions
+): T[] {
+  const visible = view.hideCompleted
+    ? tasks.filter((task) => !task.completed)
+    : [...tasks];
+
+  switch (view.sort) {
+    case "priority":
+      // P1 first; tasks without a priority go last
+      return visible.sort(
+        (a, b) =>
+          (a.priority ?? PRIORITIES.length + 1) -
+          (b.priority ?? PRIORITIES.length + 1)
+      );
+    case "completion":
+      return visible.sort((a, b) => Number(a.completed) - Number(b.completed));
+    case "time":
+      // Most time spent first
+      return visible.sort(
+        (a, b) => (b.timeSpent ?? 0) - (a.timeSpent ?? 0)
+      );
+    default:
+      return visible;
+  }
+}
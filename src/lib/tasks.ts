@@ -3,19 +3,49 @@
  * This file provides functions to call your API endpoints
  */
 
+import { TaskConflictError } from "@/lib/taskErrors";
+import type {
+  BatchOperation,
+  BatchOperationResult,
+  RolloverRequest,
+  RolloverResult,
+} from "@/lib/taskStore";
+import type { TimeReport } from "@/lib/timeReport";
+import type { ExportFormat } from "@/lib/taskExport";
+import type { ImportRequest, ImportRow } from "@/lib/taskImport";
+
 export interface Task {
   id: string;
   text: string;
   completed: boolean;
-  date?: string;
+  date?: string; // "YYYY-MM-DD"
   created_at?: string;
-  timeSpent?: string | number;
+  timeSpent?: number; // Whole minutes (see lib/duration)
+  position?: number; // Manual order within the task's date (lowest first)
+  version?: number; // Incremented on every write, used for ETag / If-Match checks
+  deleted_at?: string; // Set when the task is in the trash
+  rolled_over_from?: string; // Date the task was rolled over from
+  rolled_over_to?: string; // Set on the original when a task is copied forward
+  recurrence?: string; // Repeat rule on a series, e.g. "weekly:mon" (see lib/recurrence)
+  recurrence_id?: string; // Series an occurrence belongs to
+  parent_id?: string; // Set on subtasks (checklist items) - the task they belong to
+  tags?: string[]; // #tags parsed from the text, lowercased (see lib/tags)
+  priority?: number; // 1 (P1, highest) to 3; unset means no priority
+  notes?: string; // Multi-line markdown shown in the task's detail view
+}
+
+export interface TimeEntry {
+  id: string;
+  task_id: string;
+  start: string; // ISO timestamp the timer was started
+  end?: string; // ISO timestamp the timer was stopped; unset while it's running
+  duration?: number; // Seconds, set when the timer stops
 }
 
 /**
  * Fetches tasks for a specific date from Google Sheets
  *
- * @param date - Date in format "M/D/YYYY" (e.g., "12/25/2024")
+ * @param date - Date in format "YYYY-MM-DD" (e.g., "2024-12-25")
  * @returns Array of tasks for that date
  */
 export async function getTasksForDate(date: string): Promise<Task[]> {
@@ -88,7 +118,7 @@ export async function getTasksForDate(date: string): Promise<Task[]> {
  * Uses server action to avoid exposing API key client-side
  *
  * @param text - The task text
- * @param date - Date in format "M/D/YYYY" (e.g., "12/25/2024")
+ * @param date - Date in format "YYYY-MM-DD" (e.g., "2024-12-25")
  * @param completed - Whether the task is completed (default: false)
  * @returns The created task
  */
@@ -96,12 +126,19 @@ export async function createTask(
   text: string,
   date: string,
   completed: boolean = false,
-  timeSpent?: string | number
+  timeSpent?: string | number,
+  parentId?: string
 ): Promise<Task> {
   try {
     // Use server action instead of direct API call to avoid exposing API key
     const { createTaskAction } = await import("@/app/api/tasks/actions");
-    const result = await createTaskAction(text, date, completed, timeSpent);
+    const result = await createTaskAction(
+      text,
+      date,
+      completed,
+      timeSpent,
+      parentId
+    );
     return result.task;
   } catch (error) {
     console.error("Error creating task:", error);
@@ -113,8 +150,10 @@ export async function createTask(
  * Updates a task
  *
  * @param taskId - The task ID
- * @param updates - Object with fields to update (text, completed, date)
+ * @param updates - Object with fields to update (text, completed, date, recurrence)
+ * @param expectedVersion - If set, the update is rejected when the task has changed since
  * @returns The updated task
+ * @throws TaskConflictError if the task was changed by someone else
  */
 export async function updateTask(
   taskId: string,
@@ -123,12 +162,19 @@ export async function updateTask(
     completed?: boolean;
     date?: string;
     timeSpent?: string | number;
-  }
+    recurrence?: string; // "" stops the task repeating
+    priority?: number | null; // null clears it
+    notes?: string; // "" clears them
+  },
+  expectedVersion?: number
 ): Promise<Task> {
   try {
     // Use server action instead of direct API call
     const { updateTaskAction } = await import("@/app/api/tasks/actions");
-    const result = await updateTaskAction(taskId, updates);
+    const result = await updateTaskAction(taskId, updates, { expectedVersion });
+    if (!result.success) {
+      throw new TaskConflictError(result.task);
+    }
     return result.task;
   } catch (error) {
     console.error("Error updating task:", error);
@@ -140,15 +186,308 @@ export async function updateTask(
  * Deletes a task
  *
  * @param taskId - The task ID
- * @returns Success message
+ * @param expectedVersion - If set, the delete is rejected when the task has changed since
+ * @throws TaskConflictError if the task was changed by someone else
  */
-export async function deleteTask(taskId: string): Promise<void> {
+export async function deleteTask(
+  taskId: string,
+  expectedVersion?: number
+): Promise<void> {
   try {
     // Use server action instead of direct API call
     const { deleteTaskAction } = await import("@/app/api/tasks/actions");
-    await deleteTaskAction(taskId);
+    const result = await deleteTaskAction(taskId, { expectedVersion });
+    if (!result.success) {
+      throw new TaskConflictError(result.task);
+    }
   } catch (error) {
     console.error("Error deleting task:", error);
     throw error;
   }
 }
+
+/**
+ * Fetches tasks for a date range in a single request, grouped by date
+ *
+ * @param from - First date in format "YYYY-MM-DD" (inclusive)
+ * @param to - Last date in format "YYYY-MM-DD" (inclusive)
+ * @returns Tasks keyed by date; every date in the range has an entry
+ */
+export async function getTasksForDateRange(
+  from: string,
+  to: string
+): Promise<Record<string, Task[]>> {
+  const response = await fetch(
+    `/api/tasks?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+  );
+
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(
+      `Failed to fetch tasks: ${response.status} ${response.statusText}`
+    );
+  }
+
+  if (!response.ok) {
+    console.error("❌ API Error:", {
+      status: response.status,
+      error: data.error,
+      details: data.details,
+    });
+    // Throw so callers can fall back to per-date requests
+    throw new Error(
+      data.details ||
+        data.error ||
+        `Failed to fetch tasks: ${response.statusText}`
+    );
+  }
+
+  return data.tasksByDate || {};
+}
+
+/**
+ * Fetches the tasks currently in the trash (most recently deleted first)
+ */
+export async function getTrashedTasks(): Promise<Task[]> {
+  const response = await fetch("/api/tasks/trash");
+
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(
+      `Failed to fetch trash: ${response.status} ${response.statusText}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      data.details || data.error || `Failed to fetch trash: ${response.statusText}`
+    );
+  }
+
+  return data.tasks || [];
+}
+
+/**
+ * Permanently removes tasks that have been in the trash longer than the retention period
+ * Uses server action to avoid exposing API key client-side
+ *
+ * @returns How many tasks were removed
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  try {
+    const { purgeTrashAction } = await import("@/app/api/tasks/actions");
+    const result = await purgeTrashAction();
+    return result.purged;
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    throw error;
+  }
+}
+
+/**
+ * Restores a task from the trash
+ * Uses server action to avoid exposing API key client-side
+ *
+ * @param taskId - The task ID
+ * @returns The restored task
+ */
+export async function restoreTask(taskId: string): Promise<Task> {
+  try {
+    const { restoreTaskAction } = await import("@/app/api/tasks/actions");
+    const result = await restoreTaskAction(taskId);
+    return result.task;
+  } catch (error) {
+    console.error("Error restoring task:", error);
+    throw error;
+  }
+}
+
+/**
+ * Applies several task changes in one request
+ * Uses server action to avoid exposing API key client-side
+ *
+ * @param operations - Creates, updates and deletes, applied in order
+ * @returns One result per operation, in the same order
+ */
+export async function applyTaskBatch(
+  operations: BatchOperation[]
+): Promise<BatchOperationResult[]> {
+  try {
+    const { batchTasksAction } = await import("@/app/api/tasks/actions");
+    const result = await batchTasksAction(operations);
+    return result.results;
+  } catch (error) {
+    console.error("Error applying task batch:", error);
+    throw error;
+  }
+}
+
+/**
+ * Imports tasks from CSV, Markdown or todo.txt
+ * Uses server action to avoid exposing API key client-side
+ *
+ * @param request - The file's text and format; with `dryRun` nothing is created
+ * @returns One row per task in the file, with whether it was (or would be) imported
+ */
+export async function importTasks(request: ImportRequest): Promise<ImportRow[]> {
+  try {
+    const { importTasksAction } = await import("@/app/api/tasks/actions");
+    const result = await importTasksAction(request);
+    return result.rows;
+  } catch (error) {
+    console.error("Error importing tasks:", error);
+    throw error;
+  }
+}
+
+/**
+ * Sets the manual order of tasks
+ * Uses server action to avoid exposing API key client-side
+ *
+ * @param ids - Task IDs in their new order
+ * @returns The reordered tasks with their new positions
+ */
+export async function reorderTasks(ids: string[]): Promise<Task[]> {
+  try {
+    const { reorderTasksAction } = await import("@/app/api/tasks/actions");
+    const result = await reorderTasksAction(ids);
+    return result.tasks;
+  } catch (error) {
+    console.error("Error reordering tasks:", error);
+    throw error;
+  }
+}
+
+/**
+ * Rolls unfinished tasks from earlier dates over to a new date
+ * Uses server action to avoid exposing API key client-side
+ *
+ * @param request - Target date, the tasks (by ID) or date to roll over, and move/copy mode
+ * @returns One result per task
+ */
+export async function rolloverTasks(
+  request: RolloverRequest
+): Promise<RolloverResult[]> {
+  try {
+    const { rolloverTasksAction } = await import("@/app/api/tasks/actions");
+    const result = await rolloverTasksAction(request);
+    return result.results;
+  } catch (error) {
+    console.error("Error rolling over tasks:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the timers that are currently running
+ */
+export async function getRunningTimers(): Promise<TimeEntry[]> {
+  const response = await fetch("/api/tasks/timers");
+
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(
+      `Failed to fetch timers: ${response.status} ${response.statusText}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      data.details || data.error || `Failed to fetch timers: ${response.statusText}`
+    );
+  }
+
+  return data.entries || [];
+}
+
+/**
+ * Starts a task's timer
+ * Uses server action to avoid exposing API key client-side
+ *
+ * @param taskId - The task ID
+ * @returns The running time entry
+ */
+export async function startTaskTimer(taskId: string): Promise<TimeEntry> {
+  try {
+    const { startTimerAction } = await import("@/app/api/tasks/actions");
+    const result = await startTimerAction(taskId);
+    return result.entry;
+  } catch (error) {
+    console.error("Error starting timer:", error);
+    throw error;
+  }
+}
+
+/**
+ * Stops a task's timer
+ * Uses server action to avoid exposing API key client-side
+ *
+ * @param taskId - The task ID
+ * @returns The stopped entry, and the task with its new timeSpent (null if it was deleted)
+ */
+export async function stopTaskTimer(
+  taskId: string
+): Promise<{ entry: TimeEntry; task: Task | null }> {
+  try {
+    const { stopTimerAction } = await import("@/app/api/tasks/actions");
+    const { entry, task } = await stopTimerAction(taskId);
+    return { entry, task };
+  } catch (error) {
+    console.error("Error stopping timer:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the time report for a date range
+ *
+ * @param from - First date in format "YYYY-MM-DD" (inclusive)
+ * @param to - Last date in format "YYYY-MM-DD" (inclusive)
+ */
+export async function getTimeReport(
+  from: string,
+  to: string
+): Promise<TimeReport> {
+  const response = await fetch(
+    `/api/reports/time?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+  );
+
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(
+      `Failed to fetch time report: ${response.status} ${response.statusText}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      data.details ||
+        data.error ||
+        `Failed to fetch time report: ${response.statusText}`
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Returns the download URL for exporting tasks over a date range
+ *
+ * @param from - First date in format "YYYY-MM-DD" (inclusive)
+ * @param to - Last date in format "YYYY-MM-DD" (inclusive)
+ */
+export function getTaskExportUrl(
+  from: string,
+  to: string,
+  format: ExportFormat
+): string {
+  return `/api/tasks/export?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}&format=${format}`;
+}
@@ -0,0 +1,222 @@
+import type { BatchOperation } from "@/lib/taskStore";
+import {
+  formatTaskLine,
+  parseTaskLine,
+  type TaskLine,
+  type TaskLineStyle,
+} from "@/lib/taskSyntax";
+
+/**
+ * Textarea card style: one task per line, in the syntax of lib/taskSyntax
+ * ("✓ ", "- [x] " or "x " for completed tasks, "~30m" for time spent)
+ * Saving diffs the edited lines against the card's tasks, so edited lines keep
+ * their task, removed lines delete theirs, and the card keeps the lines' order.
+ */
+
+/**
+ * The parts of a task the textarea shows
+ * Tasks with a "temp-" id haven't been saved yet, so they're never written
+ */
+interface TextareaTask {
+  id: string;
+  text: string;
+  completed: boolean;
+  timeSpent?: number;
+  position?: number;
+}
+
+/**
+ * What saving the textarea changes
+ */
+export interface TextareaChanges {
+  operations: BatchOperation[];
+  // One entry per line, in order: the task it belongs to (unset for new lines),
+  // and the operation that writes it (unset if it's unchanged)
+  lines: { taskId?: string; operation?: number }[];
+  removedIds: string[]; // Tasks whose lines were removed
+  summary: { added: number; edited: number; removed: number; reordered: boolean };
+}
+
+/**
+ * Reads the textarea's lines, skipping blank ones
+ */
+export function parseTextareaLines(value: string): TaskLine[] {
+  return value.split("\n").flatMap((line) => parseTaskLine(line) ?? []);
+}
+
+/**
+ * Writes tasks as textarea lines
+ *
+ * @param style - How to mark completed tasks, normally the style the lines were typed in
+ */
+export function formatTextareaLines(
+  tasks: { text: string; completed: boolean; timeSpent?: number }[],
+  style?: TaskLineStyle
+): string {
+  return tasks.map((task) => formatTaskLine(task, style)).join("\n");
+}
+
+/**
+ * Pairs up equal texts in two lists along their longest common subsequence
+ *
+ * @returns For each index in `after`, the matching index in `before` (or -1)
+ */
+function matchCommonLines(before: string[], after: string[]): number[] {
+  // lengths[i][j]: longest common subsequence of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(after.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      matches[j++] = i++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Works out the batch that turns a card's tasks into the textarea's lines
+ *
+ * Lines are matched to tasks in three passes: unchanged lines (in order),
+ * then lines moved elsewhere with the same text, then edited lines - a changed
+ * line takes the removed task in the same spot. Unmatched lines become new
+ * tasks and unmatched tasks are deleted. If lines were reordered or added
+ * above the last existing one, every task gets its line number as its position.
+ *
+ * @param tasks - The card's tasks, in the order the textarea showed them
+ * @param lines - The textarea's lines after editing
+ * @param date - Date for new tasks
+ */
+export function diffTextareaLines(
+  tasks: TextareaTask[],
+  lines: TaskLine[],
+  date: string
+): TextareaChanges {
+  const matches = matchCommonLines(
+    tasks.map((task) => task.text),
+    lines.map((line) => line.text)
+  );
+  const used = new Set(matches.filter((index) => index !== -1));
+
+  // Moved lines: same text, different spot
+  lines.forEach((line, j) => {
+    if (matches[j] !== -1) return;
+    const index = tasks.findIndex(
+      (task, i) => !used.has(i) && task.text === line.text
+    );
+    if (index !== -1) {
+      matches[j] = index;
+      used.add(index);
+    }
+  });
+
+  // Edited lines: take the first removed task between the neighbouring matched lines
+  lines.forEach((_, j) => {
+    if (matches[j] !== -1) return;
+    const previous = matches.slice(0, j).findLast((index) => index !== -1) ?? -1;
+    const next =
+      matches.slice(j + 1).find((index) => index !== -1) ?? tasks.length;
+    for (let i = previous + 1; i < next; i++) {
+      if (!used.has(i)) {
+        matches[j] = i;
+        used.add(i);
+        break;
+      }
+    }
+  });
+
+  // Positions only need rewriting if kept tasks changed order or lines were
+  // added above the last one (new tasks go at the end by default)
+  const kept = matches.filter((index) => index !== -1);
+  const lastKept = matches.findLastIndex((index) => index !== -1);
+  const reordered = kept.some((index, k) => k > 0 && index < kept[k - 1]);
+  const renumber =
+    reordered || matches.some((index, j) => index === -1 && j < lastKept);
+
+  const operations: BatchOperation[] = [];
+  const summary = { added: 0, edited: 0, removed: 0, reordered };
+
+  const lineChanges = lines.map((line, j) => {
+    const task = matches[j] !== -1 ? tasks[matches[j]] : undefined;
+    if (!task) {
+      summary.added++;
+      operations.push({
+        type: "create",
+        task: {
+          text: line.text,
+          date,
+          completed: line.completed,
+          timeSpent: line.timeSpent,
+          position: renumber ? j : undefined,
+        },
+      });
+      return { operation: operations.length - 1 };
+    }
+
+    if (task.id.startsWith("temp-")) {
+      return { taskId: task.id };
+    }
+
+    const updates = {
+      ...(line.text !== task.text ? { text: line.text } : {}),
+      ...(line.completed !== task.completed ? { completed: line.completed } : {}),
+      // A line without a "~" token clears the time
+      ...((line.timeSpent ?? 0) !== (task.timeSpent ?? 0)
+        ? { timeSpent: line.timeSpent ?? "" }
+        : {}),
+      ...(renumber && task.position !== j ? { position: j } : {}),
+    };
+    if (Object.keys(updates).length === 0) {
+      return { taskId: task.id };
+    }
+
+    if (
+      updates.text !== undefined ||
+      updates.completed !== undefined ||
+      updates.timeSpent !== undefined
+    ) {
+      summary.edited++;
+    }
+    operations.push({ type: "update", id: task.id, updates });
+    return { taskId: task.id, operation: operations.length - 1 };
+  });
+
+  const removedIds = tasks
+    .filter((task, i) => !used.has(i) && !task.id.startsWith("temp-"))
+    .map((task) => task.id);
+  for (const id of removedIds) {
+    summary.removed++;
+    operations.push({ type: "delete", id });
+  }
+
+  return { operations, lines: lineChanges, removedIds, summary };
+}
+
+/**
+ * Describes saved textarea changes, e.g. "2 added, 1 edited, 1 removed"
+ */
+export function formatTextareaSummary(summary: TextareaChanges["summary"]): string {
+  const parts = [
+    summary.added > 0 && `${summary.added} added`,
+    summary.edited > 0 && `${summary.edited} edited`,
+    summary.removed > 0 && `${summary.removed} removed`,
+    summary.reordered && "reordered",
+  ].filter(Boolean);
+  return parts.join(", ");
+}
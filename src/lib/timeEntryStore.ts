@@ -0,0 +1,163 @@
+import path from "path";
+import type { Task, TimeEntry } from "@/lib/tasks";
+import {
+  getDefaultBackend,
+  isTaskDeleted,
+  type TaskStore,
+} from "@/lib/taskStore";
+import { GoogleSheetsTimeEntryStore } from "@/lib/googleSheetsTimeEntryStore";
+import { JsonFileTimeEntryStore } from "@/lib/jsonFileTimeEntryStore";
+
+/**
+ * Storage backend contract for time entries (one per start/stop of a task's timer)
+ * Entries live apart from tasks: a separate sheet tab, or a separate JSON file
+ */
+export interface TimeEntryStore {
+  /** Returns a task's time entries, oldest first */
+  listByTask(taskId: string): Promise<TimeEntry[]>;
+  /** Returns the entries whose timers are still running */
+  listRunning(): Promise<TimeEntry[]>;
+  /** Starts a timer for a task, returns null if one is already running for it */
+  start(taskId: string): Promise<TimeEntry | null>;
+  /** Stops a task's running timer, returns null if none is running */
+  stop(taskId: string): Promise<TimeEntry | null>;
+}
+
+/**
+ * Generates a new time entry ID
+ */
+export function generateTimeEntryId(): string {
+  return `entry-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Builds a running time entry for a task, started now
+ */
+export function buildTimeEntry(taskId: string): TimeEntry {
+  return {
+    id: generateTimeEntryId(),
+    task_id: taskId,
+    start: new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns a copy of a running entry stopped now, with its duration filled in
+ */
+export function stopTimeEntry(entry: TimeEntry): TimeEntry {
+  const end = new Date();
+  const seconds = Math.round(
+    (end.getTime() - new Date(entry.start).getTime()) / 1000
+  );
+  return {
+    ...entry,
+    end: end.toISOString(),
+    duration: Math.max(0, seconds || 0),
+  };
+}
+
+/**
+ * Whether an entry's timer is still running
+ */
+export function isTimerRunning(entry: TimeEntry): boolean {
+  return !entry.end;
+}
+
+/**
+ * Total tracked time of stopped entries, in whole minutes
+ */
+export function getTrackedMinutes(entries: TimeEntry[]): number {
+  const seconds = entries.reduce(
+    (total, entry) => total + (entry.duration || 0),
+    0
+  );
+  return Math.round(seconds / 60);
+}
+
+/**
+ * Whether a timer can be started for a task
+ *
+ * @returns An error message, or null if the task can be timed
+ */
+export function checkTimerTask(task: Task | null): string | null {
+  if (!task || isTaskDeleted(task)) {
+    return "Task not found";
+  }
+  if (task.recurrence) {
+    return "Time is tracked on a repeating task's occurrences, not the series";
+  }
+  return null;
+}
+
+/**
+ * Updates a task's timeSpent after one of its timers stopped
+ *
+ * timeSpent is recomputed from the task's entries. Minutes that were typed in by
+ * hand are kept on top of the tracked time, so stopping a timer never loses them.
+ *
+ * @param stopped - The entry that was just stopped
+ * @returns The updated task, or null if it no longer exists
+ */
+export async function addTrackedTime(
+  tasks: TaskStore,
+  entries: TimeEntryStore,
+  stopped: TimeEntry
+): Promise<Task | null> {
+  const task = await tasks.get(stopped.task_id);
+  if (!task || isTaskDeleted(task)) {
+    return null;
+  }
+
+  const earlier = (await entries.listByTask(stopped.task_id)).filter(
+    (entry) => entry.id !== stopped.id
+  );
+  const before = getTrackedMinutes(earlier);
+  const after = getTrackedMinutes([...earlier, stopped]);
+  const manual = (task.timeSpent ?? 0) - before;
+
+  return tasks.update(stopped.task_id, {
+    timeSpent: Math.max(0, manual + after),
+  });
+}
+
+let timeEntryStore: TimeEntryStore | null = null;
+
+/**
+ * Returns the configured time entry store
+ *
+ * Uses the same backend as the task store (TASK_STORE):
+ * - "sheets": a separate tab in the task spreadsheet, GOOGLE_SHEETS_TIME_ENTRIES_SHEET_NAME (default: TimeEntries)
+ * - "json": TIME_ENTRIES_FILE (default: time-entries.json next to the task file)
+ */
+export function getTimeEntryStore(): TimeEntryStore {
+  if (timeEntryStore) {
+    return timeEntryStore;
+  }
+
+  const backend = process.env.TASK_STORE || getDefaultBackend();
+
+  switch (backend) {
+    case "sheets":
+      timeEntryStore = new GoogleSheetsTimeEntryStore({
+        spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
+        sheetName:
+          process.env.GOOGLE_SHEETS_TIME_ENTRIES_SHEET_NAME || "TimeEntries",
+      });
+      break;
+    case "json":
+      timeEntryStore = new JsonFileTimeEntryStore(
+        process.env.TIME_ENTRIES_FILE ||
+          path.join(
+            path.dirname(process.env.TASK_STORE_FILE || "data/tasks.json"),
+            "time-entries.json"
+          )
+      );
+      break;
+    default:
+      throw new Error(
+        `Unknown TASK_STORE "${backend}". Supported values: sheets, json`
+      );
+  }
+
+  return timeEntryStore;
+}
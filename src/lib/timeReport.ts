@@ -0,0 +1,132 @@
+import type { Task } from "@/lib/tasks";
+import {
+  eachTaskDateInRange,
+  formatTaskDate,
+  normalizeTaskDate,
+  parseTaskDate,
+} from "@/lib/dates";
+import { getTaskTags } from "@/lib/tags";
+
+/**
+ * Time report: sums tasks' timeSpent over a date range
+ * Subtasks are left out - they're checklist items without time of their own.
+ */
+
+// Longest date range a report can cover
+export const MAX_REPORT_DAYS = 366;
+
+// Tasks listed as top time sinks
+const TOP_TASK_COUNT = 10;
+
+/**
+ * Time and planned-vs-completed counts for a group of tasks
+ */
+export interface TimeReportTotals {
+  minutes: number;
+  tasks: number; // Tasks planned
+  completed: number; // Of those, how many were completed
+}
+
+export interface TimeReport {
+  from: string;
+  to: string;
+  total: TimeReportTotals;
+  byDay: ({ date: string } & TimeReportTotals)[]; // Every date in the range, in order
+  byWeek: ({ week: string } & TimeReportTotals)[]; // Keyed by the week's Monday
+  byTag: ({ tag: string } & TimeReportTotals)[]; // Most time first; untagged tasks aren't included
+  byCompletion: { completed: TimeReportTotals; open: TimeReportTotals };
+  topTasks: {
+    id: string;
+    text: string;
+    date: string;
+    minutes: number;
+    completed: boolean;
+  }[]; // Tasks with the most time, most first
+}
+
+function emptyTotals(): TimeReportTotals {
+  return { minutes: 0, tasks: 0, completed: 0 };
+}
+
+function addTask(totals: TimeReportTotals, task: Task) {
+  totals.minutes += task.timeSpent ?? 0;
+  totals.tasks += 1;
+  if (task.completed) {
+    totals.completed += 1;
+  }
+}
+
+/**
+ * Returns the Monday of a task date's week (as "YYYY-MM-DD")
+ */
+function getWeekStart(date: string): string {
+  const day = parseTaskDate(date)!;
+  // getDay() is 0 for Sunday, which belongs to the week that started 6 days earlier
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return formatTaskDate(day);
+}
+
+/**
+ * Builds a time report from the tasks between `from` and `to` (inclusive)
+ *
+ * @param tasks - Tasks in the range, as returned by TaskStore.listByDateRange
+ */
+export function buildTimeReport(tasks: Task[], from: Date, to: Date): TimeReport {
+  const total = emptyTotals();
+  const byDay = new Map<string, TimeReportTotals>();
+  const byWeek = new Map<string, TimeReportTotals>();
+  const byTag = new Map<string, TimeReportTotals>();
+  const byCompletion = { completed: emptyTotals(), open: emptyTotals() };
+
+  for (const date of eachTaskDateInRange(from, to)) {
+    byDay.set(date, emptyTotals());
+    const week = getWeekStart(date);
+    if (!byWeek.has(week)) {
+      byWeek.set(week, emptyTotals());
+    }
+  }
+
+  const counted: { task: Task; date: string }[] = [];
+  for (const task of tasks) {
+    const date = normalizeTaskDate(task.date || "");
+    const day = date ? byDay.get(date) : undefined;
+    if (!date || !day || task.parent_id) {
+      continue;
+    }
+
+    counted.push({ task, date });
+    addTask(total, task);
+    addTask(day, task);
+    addTask(byWeek.get(getWeekStart(date))!, task);
+    addTask(task.completed ? byCompletion.completed : byCompletion.open, task);
+    for (const tag of getTaskTags(task)) {
+      if (!byTag.has(tag)) {
+        byTag.set(tag, emptyTotals());
+      }
+      addTask(byTag.get(tag)!, task);
+    }
+  }
+
+  return {
+    from: formatTaskDate(from),
+    to: formatTaskDate(to),
+    total,
+    byDay: [...byDay].map(([date, totals]) => ({ date, ...totals })),
+    byWeek: [...byWeek].map(([week, totals]) => ({ week, ...totals })),
+    byTag: [...byTag]
+      .map(([tag, totals]) => ({ tag, ...totals }))
+      .sort((a, b) => b.minutes - a.minutes || a.tag.localeCompare(b.tag)),
+    byCompletion,
+    topTasks: counted
+      .filter(({ task }) => (task.timeSpent ?? 0) > 0)
+      .sort((a, b) => b.task.timeSpent! - a.task.timeSpent!)
+      .slice(0, TOP_TASK_COUNT)
+      .map(({ task, date }) => ({
+        id: task.id,
+        text: task.text,
+        date,
+        minutes: task.timeSpent!,
+        completed: task.completed,
+      })),
+  };
+}